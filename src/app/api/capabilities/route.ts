@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { getCapabilities } from "@/lib/serverConfig";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json(getCapabilities());
+}
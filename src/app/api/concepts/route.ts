@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { OFFLINE_CONCEPTS_MODEL, validateConceptsRequest } from "@/lib/concepts";
+import { splitConceptsOffline, splitConceptsWithGemini } from "@/lib/conceptSplitter";
+import { getProviderInfo } from "@/lib/providers";
+import { withRetry } from "@/lib/retry";
+import {
+  getConceptsModel,
+  getDefaultProviderId,
+  getRetryOptions,
+  resolveApiKey,
+} from "@/lib/serverConfig";
+
+export const maxDuration = 120;
+export const dynamic = "force-dynamic";
+
+// Propose visualizable concepts from a long article
+export async function POST(request: NextRequest) {
+  try {
+    let json: unknown;
+    try {
+      json = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 });
+    }
+
+    const validation = validateConceptsRequest(json);
+    if (!validation.ok) {
+      return NextResponse.json(
+        { error: "Invalid request", fieldErrors: validation.errors },
+        { status: 400 }
+      );
+    }
+    const { article, count, apiKey } = validation.value;
+
+    const resolution = resolveApiKey(apiKey);
+    if (!resolution.ok) {
+      // Without a Gemini key, deployments on a keyless provider (e.g. the
+      // offline mock) split locally instead
+      if (resolution.status !== 400 && !getProviderInfo(getDefaultProviderId())?.requiresApiKey) {
+        return NextResponse.json({
+          concepts: splitConceptsOffline(article, count),
+          model: OFFLINE_CONCEPTS_MODEL,
+        });
+      }
+      return NextResponse.json({ error: resolution.error }, { status: resolution.status });
+    }
+
+    const model = getConceptsModel();
+    const concepts = await withRetry(
+      () => splitConceptsWithGemini(resolution.apiKey, model, article, count, request.signal),
+      getRetryOptions(),
+      undefined,
+      request.signal
+    );
+    if (concepts.length === 0) {
+      return NextResponse.json({ error: "The model did not propose any concepts" }, { status: 502 });
+    }
+
+    return NextResponse.json({ concepts, model });
+  } catch (error) {
+    console.error("Concepts API Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
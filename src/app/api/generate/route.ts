@@ -1,124 +1,199 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
+import { GenerateResult, NDJSON_CONTENT_TYPE } from "@/lib/generateClient";
+import { MAX_TOTAL_REFERENCE_BYTES, validateGenerateRequest } from "@/lib/generateSchema";
+import { DEFAULT_ASPECT_RATIO, DEFAULT_IMAGE_SIZE } from "@/lib/imageOptions";
+import {
+  ImageGenerationRequest,
+  ImageProvider,
+  createProvider,
+  getProviderInfo,
+} from "@/lib/providers";
+import { RetryOptions, createLimiter, withRetry } from "@/lib/retry";
+import {
+  getDefaultModel,
+  getDefaultProviderId,
+  getGenerationConcurrency,
+  getRetryOptions,
+  resolveApiKey,
+} from "@/lib/serverConfig";
 
 export const maxDuration = 800;
 export const dynamic = "force-dynamic";
 
-export const config = {
-  api: {
-    bodyParser: {
-      sizeLimit: "50mb",
-    },
-  },
-};
-
-const MODEL_NAME = "gemini-3-pro-image-preview";
+// Base64 inflates images by 4/3; allow another 1MB for the prompt and JSON
+const MAX_BODY_BYTES = Math.ceil((MAX_TOTAL_REFERENCE_BYTES * 4) / 3) + 1024 * 1024;
 
-interface GenerateRequest {
-  prompt: string;
-  referenceImages: { data: string; mimeType: string }[];
-  count?: number;
-  apiKey: string;
-}
+// Appended to the prompt of a masked refinement; the mask is sent as the
+// last reference image, right after the image being refined
+const REGION_EDIT_INSTRUCTION = `The final reference image is a black-and-white mask with the same dimensions as the image to edit, which is the reference image just before it. Apply the requested change ONLY inside the white area of the mask. Everything in the black area must stay exactly as it is in the image to edit: same layout, text, shapes, colors and positions. Do not reproduce the mask itself in the output.`;
 
-async function generateSingleImage(
-  genai: GoogleGenAI,
-  prompt: string,
-  referenceImages: { data: string; mimeType: string }[],
-  index: number
-): Promise<{ index: number; image?: string; error?: string }> {
+async function generateWithRetry(
+  provider: ImageProvider,
+  request: ImageGenerationRequest,
+  index: number,
+  retryOptions: RetryOptions
+): Promise<GenerateResult> {
+  let attempts = 0;
   try {
-    const parts: Array<{ text: string } | { inlineData: { data: string; mimeType: string } }> = [
-      { text: prompt + ` (Variation ${index + 1})` },
-    ];
-
-    for (const img of referenceImages) {
-      parts.push({
-        inlineData: {
-          data: img.data,
-          mimeType: img.mimeType,
-        },
-      });
-    }
-
-    const response = await genai.models.generateContent({
-      model: MODEL_NAME,
-      contents: [
-        {
-          role: "user",
-          parts,
-        },
-      ],
-      config: {
-        responseModalities: ["TEXT", "IMAGE"],
-        imageConfig: {
-          aspectRatio: "16:9",
-          imageSize: "2K",
-        },
+    request.signal?.throwIfAborted();
+    const result = await withRetry(
+      () => {
+        attempts++;
+        return provider.generateImage(request, index);
       },
-    });
-
-    const candidate = response.candidates?.[0];
-    if (!candidate?.content?.parts) {
-      return { index, error: "No response from model" };
-    }
-
-    for (const part of candidate.content.parts) {
-      if (part.inlineData?.data) {
-        return {
-          index,
-          image: `data:${part.inlineData.mimeType || "image/png"};base64,${part.inlineData.data}`,
-        };
-      }
-    }
-
-    return { index, error: "No image in response" };
+      retryOptions,
+      (retry, delayMs, error) => {
+        console.warn(
+          `Retrying image ${index} (retry ${retry}) in ${Math.round(delayMs)}ms:`,
+          error instanceof Error ? error.message : error
+        );
+      },
+      request.signal
+    );
+    return { ...result, model: request.model, attempts };
   } catch (error) {
+    if (request.signal?.aborted) {
+      return { index, error: "Cancelled", model: request.model, attempts };
+    }
     console.error(`Error generating image ${index}:`, error);
     return {
       index,
       error: error instanceof Error ? error.message : "Unknown error",
+      model: request.model,
+      attempts,
     };
   }
 }
 
+function streamResults(tasks: Promise<GenerateResult>[], signal: AbortSignal): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      await Promise.all(
+        tasks.map(async (task) => {
+          const result = await task;
+          // The client has gone away; nothing left to write to
+          if (signal.aborted) return;
+          controller.enqueue(encoder.encode(JSON.stringify(result) + "\n"));
+        })
+      );
+      if (!signal.aborted) controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": NDJSON_CONTENT_TYPE,
+      "Cache-Control": "no-cache",
+    },
+  });
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const body: GenerateRequest = await request.json();
-    const { prompt, referenceImages, count = 5, apiKey } = body;
+    const contentLength = Number(request.headers.get("content-length"));
+    if (contentLength > MAX_BODY_BYTES) {
+      return NextResponse.json(
+        { error: "Request too large. Try using fewer or smaller reference images." },
+        { status: 413 }
+      );
+    }
 
-    if (!apiKey) {
+    let json: unknown;
+    try {
+      json = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 });
+    }
+
+    const validation = validateGenerateRequest(json);
+    if (!validation.ok) {
       return NextResponse.json(
-        { error: "API key is required. Please enter your Gemini API key." },
-        { status: 401 }
+        { error: "Invalid request", fieldErrors: validation.errors },
+        { status: validation.tooLarge ? 413 : 400 }
       );
     }
 
-    if (!prompt || !referenceImages || referenceImages.length === 0) {
+    const body = validation.value;
+    const {
+      count = 5,
+      aspectRatio = DEFAULT_ASPECT_RATIO,
+      imageSize = DEFAULT_IMAGE_SIZE,
+      provider: providerId = getDefaultProviderId(),
+      apiKey,
+    } = body;
+
+    const providerInfo = getProviderInfo(providerId);
+    if (!providerInfo) {
       return NextResponse.json(
-        { error: "Prompt and at least one reference image are required" },
+        { error: `Unknown image provider: ${providerId}` },
         { status: 400 }
       );
     }
+    // Only the provider's own models (or the deployment's IMAGE_MODEL) may be
+    // requested, so a server-side key can't be spent on arbitrary models
+    const defaultModel = getDefaultModel(providerId);
+    if (body.model && body.model !== defaultModel && !providerInfo.models.includes(body.model)) {
+      return NextResponse.json(
+        {
+          error: "Invalid request",
+          fieldErrors: {
+            model: `Model must be one of ${providerInfo.models.join(", ")} for ${providerInfo.id}`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+    const model = body.model || defaultModel;
+
+    let resolvedApiKey: string | undefined;
+    if (providerInfo.requiresApiKey) {
+      const resolution = resolveApiKey(apiKey);
+      if (!resolution.ok) {
+        return NextResponse.json({ error: resolution.error }, { status: resolution.status });
+      }
+      resolvedApiKey = resolution.apiKey;
+    }
 
-    // Create a new GoogleGenAI instance with the user-provided API key
-    const genai = new GoogleGenAI({ apiKey });
+    const provider = createProvider(providerId, resolvedApiKey);
+    // request.signal aborts when the client disconnects or cancels, which
+    // stops queued and in-flight provider calls
+    const generationRequest = {
+      prompt: body.mask ? `${body.prompt}\n\n${REGION_EDIT_INSTRUCTION}` : body.prompt,
+      referenceImages: body.mask ? [...body.referenceImages, body.mask] : body.referenceImages,
+      model,
+      aspectRatio,
+      imageSize,
+      signal: request.signal,
+    };
+    const retryOptions = getRetryOptions();
+    const limit = createLimiter(getGenerationConcurrency());
 
-    // Generate images in parallel
-    const results = await Promise.all(
-      Array.from({ length: count }, (_, i) =>
-        generateSingleImage(genai, prompt, referenceImages, i)
-      )
+    // Generate images in parallel, up to the concurrency cap
+    const indices = body.indices ?? Array.from({ length: count }, (_, i) => i);
+    const tasks = indices.map((i) =>
+      limit(() => generateWithRetry(provider, generationRequest, i, retryOptions))
     );
 
+    // Clients that accept NDJSON get one line per image as soon as it resolves
+    if (request.headers.get("accept")?.includes(NDJSON_CONTENT_TYPE)) {
+      return streamResults(tasks, request.signal);
+    }
+
+    const results = await Promise.all(tasks);
+
     // Sort by index and extract images
     const sortedResults = results.sort((a, b) => a.index - b.index);
+    // The variation each entry is for; with `indices` they aren't 0..n-1
+    const resultIndices = sortedResults.map((r) => r.index);
     const images = sortedResults.map((r) => r.image || null);
+    const texts = sortedResults.map((r) => r.text || null);
+    const attempts = sortedResults.map((r) => r.attempts ?? 1);
     const errors = sortedResults
       .filter((r) => r.error)
       .map((r) => ({ index: r.index, error: r.error }));
 
-    return NextResponse.json({ images, errors });
+    return NextResponse.json({ indices: resultIndices, images, texts, attempts, errors, model });
   } catch (error) {
     console.error("API Error:", error);
     return NextResponse.json(
@@ -1,52 +1,115 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
+import BatchPanel from "@/components/BatchPanel";
+import CompareView, { CompareItem, MAX_COMPARE_IMAGES } from "@/components/CompareView";
+import CompareToggle from "@/components/CompareToggle";
+import ConceptSplitter from "@/components/ConceptSplitter";
+import FailedSlotCard from "@/components/FailedSlotCard";
+import FavoriteToggle from "@/components/FavoriteToggle";
+import ImageDetailsPopover from "@/components/ImageDetailsPopover";
 import ImageUploader from "@/components/ImageUploader";
+import ImageViewer, { VIEWER_KEYS, findViewerTarget } from "@/components/ImageViewer";
+import MergeBadge, { isMergeClick } from "@/components/MergeBadge";
+import MergePanel from "@/components/MergePanel";
+import PromptTemplatePanel from "@/components/PromptTemplatePanel";
+import { STAR_PATH } from "@/components/RatingStars";
+import RefinePanel, { DEFAULT_REFINE_SETTINGS, RefineSettings } from "@/components/RefinePanel";
+import RefinementGraph from "@/components/RefinementGraph";
+import RefinementTree from "@/components/RefinementTree";
+import SessionSidebar from "@/components/SessionSidebar";
+import Shortlist, { ShortlistItem } from "@/components/Shortlist";
+import StylePresetPicker from "@/components/StylePresetPicker";
 import { useApiKey } from "@/hooks/useApiKey";
+import { BatchJob, useBatchQueue } from "@/hooks/useBatchQueue";
+import { useCapabilities } from "@/hooks/useCapabilities";
+import { usePromptTemplates } from "@/hooks/usePromptTemplates";
+import { useSessions } from "@/hooks/useSessions";
+import { useUndoHistory } from "@/hooks/useUndoHistory";
+import { parseBatchFile } from "@/lib/batchParser";
+import { sha256Hex } from "@/lib/binary";
+import { Concept } from "@/lib/concepts";
+import { downloadExcalidrawScene } from "@/lib/excalidrawExport";
+import {
+  GenerateRequestError,
+  GenerateResult,
+  isAbortError,
+  streamGenerate,
+} from "@/lib/generateClient";
+import {
+  FieldErrors,
+  MAX_MERGE_PARENTS,
+  MAX_STYLE_REFERENCES,
+  MAX_TOTAL_REFERENCE_BYTES,
+  base64ByteLength,
+  formatBytes,
+} from "@/lib/generateSchema";
+import {
+  DEFAULT_REFERENCE_ENCODING,
+  ReferenceEncoding,
+  encodeReferenceImage,
+} from "@/lib/imageEncoding";
+import {
+  Placement,
+  addRefinementsToImage,
+  collectBranchIds,
+  collectFavorites,
+  findAdjacentSibling,
+  findFirstParents,
+  findImageById,
+  findImagePath,
+  findPlacements,
+  findSiblings,
+  imageLabel,
+  insertImageAt,
+  mergeParentLabels,
+  reconcileBranch,
+  removeImageById,
+  updateImageById,
+} from "@/lib/imageTree";
+import {
+  ASPECT_RATIOS,
+  AspectRatio,
+  DEFAULT_ASPECT_RATIO,
+  DEFAULT_IMAGE_SIZE,
+  IMAGE_SIZES,
+  IMAGE_SIZE_HINTS,
+  ImageSize,
+} from "@/lib/imageOptions";
+import {
+  DEFAULT_TEMPLATE,
+  PromptTemplate,
+  buildMergeInstructions,
+  buildPrompt,
+  mergeLetter,
+  renderTemplate,
+  resolveVariables,
+} from "@/lib/promptTemplates";
+import { groupRuns, runSummary } from "@/lib/runs";
+import { SessionSnapshot } from "@/lib/sessionStore";
+import { hasFavorite } from "@/lib/treeLayout";
+import {
+  FailedSlot,
+  GenerationRequest,
+  GeneratedImage,
+  RequestProvenance,
+  UploadedImage,
+} from "@/lib/types";
+import { downloadImagesZip } from "@/lib/zipExport";
 
-interface UploadedImage {
-  id: string;
-  file: File;
-  preview: string;
-  base64: string;
-  mimeType: string;
-}
-
-interface GeneratedImage {
-  id: string;
-  url: string;
-  base64: string;
-  refinements: GeneratedImage[];
-}
-
-const DEFAULT_SYSTEM_PROMPT = `Generate an explanation image in the style of the reference images. This is for generating visual explanations that explain concepts clearly. Use a white background. Capture the visual aesthetic, color palette, artistic techniques, and overall mood of the references. When depicting people or avatars, prefer using humanoid robots. Explain the concept in a similar style to the reference images, using diagrams, annotations, and illustrations as needed.`;
+const DEFAULT_IMAGES = ["reference1.png", "reference2.png", "reference4.png"];
 
-const DEFAULT_IMAGES = ["reference1.png", "reference2.png", "reference3.png", "reference4.png"];
-
-async function loadDefaultImage(url: string): Promise<UploadedImage | null> {
+async function loadDefaultImage(
+  url: string,
+  encoding: ReferenceEncoding
+): Promise<UploadedImage | null> {
   try {
     const response = await fetch(url);
     const blob = await response.blob();
     const file = new File([blob], url.split("/").pop() || "image.png", {
-      type: blob.type,
-    });
-
-    return new Promise((resolve) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const result = e.target?.result as string;
-        const base64 = result.split(",")[1];
-        resolve({
-          id: crypto.randomUUID(),
-          file,
-          preview: result,
-          base64,
-          mimeType: blob.type || "image/png",
-        });
-      };
-      reader.onerror = () => resolve(null);
-      reader.readAsDataURL(blob);
+      type: blob.type || "image/png",
     });
+    return await encodeReferenceImage(file, encoding);
   } catch {
     return null;
   }
@@ -56,215 +119,118 @@ function extractBase64(dataUrl: string): string {
   return dataUrl.split(",")[1] || dataUrl;
 }
 
-function findImageById(images: GeneratedImage[], id: string): GeneratedImage | null {
-  for (const img of images) {
-    if (img.id === id) return img;
-    const found = findImageById(img.refinements, id);
-    if (found) return found;
-  }
-  return null;
+function extractMimeType(dataUrl: string): string {
+  return dataUrl.match(/^data:([^;,]+)/)?.[1] || "image/png";
 }
 
-function addRefinementsToImage(
-  images: GeneratedImage[],
-  targetId: string,
-  newRefinements: GeneratedImage[]
-): GeneratedImage[] {
-  return images.map((img) => {
-    if (img.id === targetId) {
-      return { ...img, refinements: [...img.refinements, ...newRefinements] };
-    }
-    return {
-      ...img,
-      refinements: addRefinementsToImage(img.refinements, targetId, newRefinements),
-    };
-  });
+// What undo/redo restores: the session plus the failed slots of the
+// generations in it, so undoing a generation takes its slots with it
+interface HistorySnapshot extends SessionSnapshot {
+  failedSlots: FailedSlot[];
 }
 
-// Find siblings of a selected image (images in the same row/group)
-function findSiblings(images: GeneratedImage[], targetId: string): GeneratedImage[] | null {
-  // Check top-level images
-  if (images.some(img => img.id === targetId)) {
-    return images;
-  }
-  // Check refinements recursively
-  for (const img of images) {
-    if (img.refinements.some(r => r.id === targetId)) {
-      return img.refinements;
-    }
-    const found = findSiblings(img.refinements, targetId);
-    if (found) return found;
-  }
-  return null;
+// A pruned branch, kept until the next prune so it can be put back
+interface PrunedBranch {
+  image: GeneratedImage;
+  label: string;
+  // Number of images removed, including the branch root
+  imageCount: number;
+  // Merged images sat under several parents
+  placements: Placement[];
+  failedSlots: FailedSlot[];
 }
 
-function RefinementTree({
-  parentLabel,
-  refinements,
-  depth,
-  selectedImageId,
-  onSelect,
-  onPreview,
-  onDownload,
-  refinementPrompt,
-  onRefinementPromptChange,
-  onRefine,
-  refiningImageId,
-}: {
-  parentLabel: string;
-  refinements: GeneratedImage[];
-  depth: number;
-  selectedImageId: string | null;
-  onSelect: (id: string | null) => void;
-  onPreview: (url: string) => void;
-  onDownload: (url: string, name: string) => void;
-  refinementPrompt: string;
-  onRefinementPromptChange: (value: string) => void;
-  onRefine: (img: GeneratedImage) => void;
-  refiningImageId: string | null;
-}) {
-  const selectedInThisRow = refinements.find(r => r.id === selectedImageId);
+function toGeneratedImage(
+  result: GenerateResult,
+  url: string,
+  provenance: RequestProvenance
+): GeneratedImage {
+  return {
+    id: crypto.randomUUID(),
+    url,
+    base64: extractBase64(url),
+    refinements: [],
+    provenance: {
+      ...provenance,
+      variationIndex: result.index,
+      model: result.model,
+      responseText: result.text,
+      attempts: result.attempts,
+      createdAt: Date.now(),
+    },
+  };
+}
 
-  return (
-    <div className={`space-y-3 ${depth > 0 ? "ml-4 pl-4 border-l-2 border-gray-200 dark:border-gray-700" : ""}`}>
-      <p className="text-sm text-gray-500">
-        From {parentLabel} {depth > 0 && <span className="text-xs text-blue-500">(depth {depth})</span>}
-      </p>
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        {refinements.map((refined, rIndex) => (
-          <div
-            key={refined.id}
-            className={`relative group cursor-pointer rounded-lg overflow-hidden border-4 transition-all ${
-              selectedImageId === refined.id
-                ? "border-blue-500 ring-2 ring-blue-300"
-                : "border-transparent hover:border-gray-300"
-            }`}
-            onClick={() => onSelect(selectedImageId === refined.id ? null : refined.id)}
-          >
-            <img
-              src={refined.url}
-              alt={`Refined ${rIndex + 1}`}
-              className="w-full aspect-video object-cover"
-            />
-            <div className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-colors" />
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                onPreview(refined.url);
-              }}
-              className="absolute top-2 left-2 bg-black/50 hover:bg-black/70 text-white rounded-full w-8 h-8 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v3m0 0v3m0-3h3m-3 0H7" />
-              </svg>
-            </button>
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                onDownload(refined.url, `refined-depth${depth}-${rIndex + 1}`);
-              }}
-              className="absolute top-2 right-2 bg-black/50 hover:bg-black/70 text-white rounded-full w-8 h-8 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-              </svg>
-            </button>
-            {selectedImageId === refined.id && (
-              <div className="absolute bottom-2 left-1/2 -translate-x-1/2 bg-blue-500 text-white text-xs px-2 py-1 rounded">
-                Selected
-              </div>
-            )}
-          </div>
-        ))}
-      </div>
+// Request fields that have their own control on the page
+const CONTROL_FIELDS = ["count", "aspectRatio", "imageSize"];
 
-      {/* Refinement panel for this row */}
-      {selectedInThisRow && (
-        <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800 space-y-3">
-          <div className="flex items-center gap-3">
-            <img
-              src={selectedInThisRow.url}
-              alt="Selected"
-              className="w-20 h-12 object-cover rounded"
-            />
-            <div className="flex-1">
-              <label className="block text-sm font-medium text-foreground mb-1">
-                Refine this image
-              </label>
-              <p className="text-xs text-gray-500">Describe what changes you want to make</p>
-            </div>
-          </div>
-          <textarea
-            value={refinementPrompt}
-            onChange={(e) => onRefinementPromptChange(e.target.value)}
-            rows={3}
-            className="w-full px-4 py-3 rounded-lg border border-blue-300 dark:border-blue-600 bg-white dark:bg-gray-800 text-foreground focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-            placeholder="What should be changed? e.g., 'Make the colors more vibrant' or 'Add more detail to the background'"
-          />
-          <button
-            onClick={() => onRefine(selectedInThisRow)}
-            disabled={!refinementPrompt.trim() || refiningImageId !== null}
-            className={`w-full py-3 px-4 rounded-lg font-medium text-white transition-colors ${
-              refinementPrompt.trim() && refiningImageId === null
-                ? "bg-blue-600 hover:bg-blue-700"
-                : "bg-gray-400 cursor-not-allowed"
-            }`}
-          >
-            {refiningImageId === selectedInThisRow.id ? (
-              <span className="flex items-center justify-center gap-2">
-                <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                </svg>
-                Generating 3 Variations...
-              </span>
-            ) : (
-              "Refine → Generate 3 Variations"
-            )}
-          </button>
-        </div>
-      )}
+function isInlineField(field: string): boolean {
+  return field === "prompt" || field.startsWith("referenceImages") || CONTROL_FIELDS.includes(field);
+}
 
-      {/* Recursively render child refinements */}
-      {refinements.filter(r => r.refinements.length > 0).map((refined, idx) => (
-        <RefinementTree
-          key={refined.id}
-          parentLabel={`Refinement ${idx + 1}`}
-          refinements={refined.refinements}
-          depth={depth + 1}
-          selectedImageId={selectedImageId}
-          onSelect={onSelect}
-          onPreview={onPreview}
-          onDownload={onDownload}
-          refinementPrompt={refinementPrompt}
-          onRefinementPromptChange={onRefinementPromptChange}
-          onRefine={onRefine}
-          refiningImageId={refiningImageId}
-        />
-      ))}
-    </div>
+// Keys typed into a text field shouldn't navigate images
+function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
   );
 }
 
 export default function Home() {
   const [images, setImages] = useState<UploadedImage[]>([]);
   const [isLoadingDefaults, setIsLoadingDefaults] = useState(true);
-  const [systemPrompt, setSystemPrompt] = useState(DEFAULT_SYSTEM_PROMPT);
+  const [systemPrompt, setSystemPrompt] = useState(DEFAULT_TEMPLATE.body);
+  const [promptVariables, setPromptVariables] = useState<Record<string, string>>({});
+  const [activeTemplateId, setActiveTemplateId] = useState<string | null>(DEFAULT_TEMPLATE.id);
   const [userContent, setUserContent] = useState("");
   const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [failedSlots, setFailedSlots] = useState<FailedSlot[]>([]);
   const [error, setError] = useState<string | null>(null);
-  const [modalImage, setModalImage] = useState<string | null>(null);
+  // Validation errors from /api/generate, shown next to the matching control
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [modalImageId, setModalImageId] = useState<string | null>(null);
   const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
+  // Images picked for the compare view, in the order they were added
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [compareFocus, setCompareFocus] = useState(0);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [treeView, setTreeView] = useState<"rows" | "graph">("rows");
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  // The run the current Generate click is adding to
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [prunedBranch, setPrunedBranch] = useState<PrunedBranch | null>(null);
   const [refinementPrompt, setRefinementPrompt] = useState("");
   const [refiningImageId, setRefiningImageId] = useState<string | null>(null);
+  const [refineSettings, setRefineSettings] = useState<RefineSettings>(DEFAULT_REFINE_SETTINGS);
+  // Images picked to merge, in letter order (A, B, C)
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+  const [mergePrompt, setMergePrompt] = useState("");
+  const [isMerging, setIsMerging] = useState(false);
+  const generateAbortRef = useRef<AbortController | null>(null);
+  const refineAbortRef = useRef<AbortController | null>(null);
+  // One controller per failed slot being retried
+  const retryAbortRefs = useRef(new Map<string, AbortController>());
+  // Results arriving after a prune check their parent is still in the tree
+  const generatedImagesRef = useRef<GeneratedImage[]>([]);
+  useEffect(() => {
+    generatedImagesRef.current = generatedImages;
+  });
   const [imageCount, setImageCount] = useState(5);
+  const [referenceEncoding, setReferenceEncoding] = useState<ReferenceEncoding>(
+    DEFAULT_REFERENCE_ENCODING
+  );
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(DEFAULT_ASPECT_RATIO);
+  const [imageSize, setImageSize] = useState<ImageSize>(DEFAULT_IMAGE_SIZE);
 
   // API key management
   const { apiKey, setApiKey, clearApiKey, isLoaded, hasApiKey } = useApiKey();
   const [apiKeyInput, setApiKeyInput] = useState("");
   const [showApiKey, setShowApiKey] = useState(false);
   const [isApiKeyExpanded, setIsApiKeyExpanded] = useState(false);
+  const { isLoaded: isCapabilitiesLoaded, usesServerKey, providerRequiresKey } = useCapabilities();
+  const needsClientKey = isCapabilitiesLoaded && providerRequiresKey && !usesServerKey;
 
   // Sync apiKeyInput with stored apiKey when loaded
   useEffect(() => {
@@ -275,10 +241,10 @@ export default function Home() {
 
   // Auto-expand API key section if no key is set
   useEffect(() => {
-    if (isLoaded && !hasApiKey) {
+    if (isLoaded && needsClientKey && !hasApiKey) {
       setIsApiKeyExpanded(true);
     }
-  }, [isLoaded, hasApiKey]);
+  }, [isLoaded, needsClientKey, hasApiKey]);
 
   const handleSaveApiKey = () => {
     if (apiKeyInput.trim()) {
@@ -293,178 +259,530 @@ export default function Home() {
     setIsApiKeyExpanded(true);
   };
 
+  // Whether the server takes a key from the browser is unknown until the
+  // capabilities load, so nothing is sent before then
+  const ensureApiKey = () => {
+    if (!isCapabilitiesLoaded) {
+      setError("Still loading the server configuration, try again in a moment");
+      return false;
+    }
+    if (needsClientKey && !hasApiKey) {
+      setError("Please enter your Gemini API key first");
+      setIsApiKeyExpanded(true);
+      return false;
+    }
+    return true;
+  };
+
+  // Session persistence
+  const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+  const sessionSnapshot = useMemo<SessionSnapshot>(
+    () => ({ systemPrompt, userContent, promptVariables, references: images, generatedImages }),
+    [systemPrompt, userContent, promptVariables, images, generatedImages]
+  );
+
+  // Undo/redo covers everything in the session snapshot and the failed slots.
+  // A generation, refine or retry in flight is recorded as one step once it
+  // finishes.
+  const historySnapshot = useMemo<HistorySnapshot>(
+    () => ({ ...sessionSnapshot, failedSlots }),
+    [sessionSnapshot, failedSlots]
+  );
+  const applyHistorySnapshot = useCallback((snapshot: HistorySnapshot) => {
+    setSystemPrompt(snapshot.systemPrompt);
+    setPromptVariables(snapshot.promptVariables);
+    setUserContent(snapshot.userContent);
+    setImages(snapshot.references);
+    setGeneratedImages(snapshot.generatedImages);
+    setFailedSlots(snapshot.failedSlots);
+    // Its Undo would put back a branch the history already restored
+    setPrunedBranch(null);
+  }, []);
+
+  const history = useUndoHistory({
+    snapshot: historySnapshot,
+    onApply: applyHistorySnapshot,
+    paused:
+      isLoading || refiningImageId !== null || isLoadingDefaults || failedSlots.some((slot) => slot.isRetrying),
+  });
+  const resetHistory = history.reset;
+
+  const handleRestoreSession = useCallback((snapshot: SessionSnapshot) => {
+    setSystemPrompt(snapshot.systemPrompt);
+    setPromptVariables(snapshot.promptVariables);
+    setUserContent(snapshot.userContent);
+    setImages(snapshot.references);
+    setGeneratedImages(snapshot.generatedImages);
+    setFailedSlots([]);
+    setSelectedImageId(null);
+    setCompareIds([]);
+    setIsCompareOpen(false);
+    setMergeIds([]);
+    setMergePrompt("");
+    setPrunedBranch(null);
+    setRefinementPrompt("");
+    setError(null);
+    setFieldErrors({});
+    setIsLoadingDefaults(false);
+    resetHistory();
+  }, [resetHistory]);
+
+  // Read at reset time so the defaults are encoded with the current settings
+  const referenceEncodingRef = useRef(referenceEncoding);
   useEffect(() => {
+    referenceEncodingRef.current = referenceEncoding;
+  });
+
+  const handleResetSession = useCallback(() => {
+    setSystemPrompt(DEFAULT_TEMPLATE.body);
+    setPromptVariables({});
+    setActiveTemplateId(DEFAULT_TEMPLATE.id);
+    setUserContent("");
+    setImages([]);
+    setGeneratedImages([]);
+    setFailedSlots([]);
+    setSelectedImageId(null);
+    setCompareIds([]);
+    setIsCompareOpen(false);
+    setMergeIds([]);
+    setMergePrompt("");
+    setPrunedBranch(null);
+    setRefinementPrompt("");
+    setError(null);
+    setFieldErrors({});
+    setIsLoadingDefaults(true);
+    resetHistory();
+
     async function loadDefaults() {
-      const loaded = await Promise.all(DEFAULT_IMAGES.map(loadDefaultImage));
+      const loaded = await Promise.all(
+        DEFAULT_IMAGES.map((url) => loadDefaultImage(url, referenceEncodingRef.current))
+      );
       const valid = loaded.filter((img): img is UploadedImage => img !== null);
       setImages(valid);
       setIsLoadingDefaults(false);
     }
     loadDefaults();
-  }, []);
+  }, [resetHistory]);
 
-  // Keyboard navigation for left/right arrows
+  const {
+    sessions,
+    currentSessionId,
+    newSession,
+    openSession,
+    renameSession,
+    deleteSession,
+  } = useSessions({
+    snapshot: sessionSnapshot,
+    onRestore: handleRestoreSession,
+    onReset: handleResetSession,
+  });
+
+  // Keyboard navigation for left/right arrows. In the compare view they swap
+  // the highlighted image for its previous/next sibling; in the full-screen
+  // viewer they move between siblings and up/down moves to the parent or
+  // first refinement. Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z redoes; text
+  // fields keep their own undo.
+  const { undo, redo } = history;
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (!selectedImageId || modalImage) return;
-      if (e.key !== "ArrowLeft" && e.key !== "ArrowRight") return;
+      if (isEditableTarget(e.target)) return;
 
-      const siblings = findSiblings(generatedImages, selectedImageId);
-      if (!siblings) return;
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z") {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+        return;
+      }
+
+      if (modalImageId) {
+        const direction = VIEWER_KEYS[e.key];
+        if (!direction) return;
+        e.preventDefault();
+        const target = findViewerTarget(generatedImages, modalImageId, direction);
+        if (target) setModalImageId(target.id);
+        return;
+      }
 
-      const currentIndex = siblings.findIndex(img => img.id === selectedImageId);
-      if (currentIndex === -1) return;
+      if (e.key !== "ArrowLeft" && e.key !== "ArrowRight") return;
+      const offset = e.key === "ArrowLeft" ? -1 : 1;
 
-      let newIndex: number;
-      if (e.key === "ArrowLeft") {
-        newIndex = currentIndex > 0 ? currentIndex - 1 : siblings.length - 1;
-      } else {
-        newIndex = currentIndex < siblings.length - 1 ? currentIndex + 1 : 0;
+      if (isCompareOpen) {
+        const focusedId = compareIds[compareFocus];
+        const sibling = focusedId && findAdjacentSibling(generatedImages, focusedId, offset);
+        if (sibling) {
+          setCompareIds((prev) => prev.map((id, i) => (i === compareFocus ? sibling.id : id)));
+        }
+        return;
       }
 
-      setSelectedImageId(siblings[newIndex].id);
+      if (!selectedImageId) return;
+      const sibling = findAdjacentSibling(generatedImages, selectedImageId, offset);
+      if (sibling) setSelectedImageId(sibling.id);
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [selectedImageId, generatedImages, modalImage]);
+  }, [selectedImageId, generatedImages, modalImageId, isCompareOpen, compareIds, compareFocus, undo, redo]);
 
-  const handleGenerate = async () => {
-    if (!hasApiKey) {
-      setError("Please enter your Gemini API key first");
-      setIsApiKeyExpanded(true);
+  // Send a generation request and place each streamed result either in the
+  // tree (under parentId, or every parent of a merge, or at the top level) or
+  // as a failed slot
+  const runGeneration = async (
+    parentId: string | null,
+    request: GenerationRequest,
+    provenance: RequestProvenance,
+    variations: { count: number } | { indices: number[] },
+    onResult?: () => void,
+    fallbackError?: string,
+    signal?: AbortSignal
+  ) => {
+    await streamGenerate(
+      {
+        ...request,
+        ...variations,
+        apiKey: needsClientKey ? apiKey : undefined,
+      },
+      (result) => {
+        onResult?.();
+        const parentIds = provenance.mergedFrom ?? (parentId ? [parentId] : []);
+        const isParentRemoved =
+          parentIds.length > 0 && !parentIds.some((id) => findImageById(generatedImagesRef.current, id));
+        if (result.image && !isParentRemoved) {
+          const image = toGeneratedImage(result, result.image, provenance);
+          setGeneratedImages((prev) =>
+            parentIds.length > 0
+              ? parentIds.reduce((tree, id) => addRefinementsToImage(tree, id, [image]), prev)
+              : [...prev, image]
+          );
+          return;
+        }
+        setFailedSlots((prev) => [
+          ...prev,
+          {
+            id: crypto.randomUUID(),
+            parentId,
+            index: result.index,
+            error: isParentRemoved ? "Parent was removed" : result.error || "Unknown error",
+            attempts: result.attempts,
+            request,
+            provenance,
+            isRetrying: false,
+          },
+        ]);
+      },
+      fallbackError,
+      signal
+    );
+  };
+
+  // Field errors go next to their control; anything without one (or any
+  // other failure) goes in the error banner
+  const showError = (err: unknown, fallback: string) => {
+    if (err instanceof GenerateRequestError) {
+      setFieldErrors(err.fieldErrors);
+      const unplaced = Object.keys(err.fieldErrors).find((field) => !isInlineField(field));
+      if (unplaced) setError(err.fieldErrors[unplaced]);
       return;
     }
+    setError(err instanceof Error ? err.message : fallback);
+  };
+
+  // Abort the in-flight request; images that already arrived are kept
+  const cancelGeneration = () => generateAbortRef.current?.abort();
+  const cancelRefine = () => refineAbortRef.current?.abort();
+
+  // Prompt templates
+  const { templates, createTemplate, saveTemplateVersion, deleteTemplate } = usePromptTemplates();
+  const activeTemplate = templates.find((t) => t.id === activeTemplateId) ?? null;
+  const renderedSystemPrompt = renderTemplate(systemPrompt, promptVariables);
+  const templateProvenance = {
+    // Only an unedited template is attributed to its saved version
+    template:
+      activeTemplate && activeTemplate.body === systemPrompt
+        ? { id: activeTemplate.id, name: activeTemplate.name, version: activeTemplate.version }
+        : undefined,
+    promptVariables: resolveVariables(systemPrompt, promptVariables),
+  };
+
+  const handleSelectTemplate = (template: PromptTemplate) => {
+    setActiveTemplateId(template.id);
+    setSystemPrompt(template.body);
+  };
+
+  const handleSaveTemplateVersion = async () => {
+    if (!activeTemplate || activeTemplate.builtIn) return;
+    try {
+      await saveTemplateVersion(activeTemplate, systemPrompt);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save template");
+    }
+  };
+
+  const handleSaveTemplateAsNew = async () => {
+    const name = prompt("Name this prompt template");
+    if (!name?.trim()) return;
+    try {
+      const created = await createTemplate(name, systemPrompt);
+      setActiveTemplateId(created.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save template");
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!activeTemplate || !confirm(`Delete the "${activeTemplate.name}" template?`)) return;
+    try {
+      await deleteTemplate(activeTemplate.id);
+      setActiveTemplateId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete template");
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!ensureApiKey()) return;
 
     if (images.length === 0) {
       setError("Please upload at least one reference image");
       return;
     }
 
+    const controller = new AbortController();
+    generateAbortRef.current = controller;
+    // Earlier runs and their refinements stay; the new run is added after them
+    const runId = crypto.randomUUID();
+    setActiveRunId(runId);
     setIsLoading(true);
     setError(null);
-    setGeneratedImages([]);
+    setFieldErrors({});
     setSelectedImageId(null);
+    setPendingCount(imageCount);
 
-    try {
-      const response = await fetch("/api/generate", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          prompt: `${systemPrompt}\n\nContent to visualize:\n${userContent}`,
-          referenceImages: images.map((img) => ({
-            data: img.base64,
-            mimeType: img.mimeType,
-          })),
-          count: imageCount,
-          apiKey: apiKey,
-        }),
-      });
-
-      if (!response.ok) {
-        let errorMessage = "Failed to generate images";
-        try {
-          const data = await response.json();
-          errorMessage = data.error || errorMessage;
-        } catch {
-          const text = await response.text();
-          if (text.includes("Entity Too Large") || response.status === 413) {
-            errorMessage = "Request too large. Try using fewer or smaller reference images.";
-          } else {
-            errorMessage = text || `Error ${response.status}`;
-          }
-        }
-        throw new Error(errorMessage);
-      }
+    const request: GenerationRequest = {
+      prompt: buildPrompt(renderedSystemPrompt, userContent),
+      referenceImages: images.map((img) => ({
+        data: img.base64,
+        mimeType: img.mimeType,
+      })),
+      aspectRatio,
+      imageSize,
+    };
 
-      const data = await response.json();
-      const newImages: GeneratedImage[] = data.images
-        .filter((img: string | null) => img !== null)
-        .map((url: string) => ({
-          id: crypto.randomUUID(),
-          url,
-          base64: extractBase64(url),
-          refinements: [],
-        }));
-      setGeneratedImages(newImages);
+    try {
+      const provenance: RequestProvenance = {
+        prompt: request.prompt,
+        ...templateProvenance,
+        runId,
+        aspectRatio,
+        imageSize,
+        referenceNames: images.map((img) => img.file.name),
+        referenceHashes: await Promise.all(request.referenceImages.map((img) => sha256Hex(img.data))),
+      };
+      await runGeneration(
+        null,
+        request,
+        provenance,
+        { count: imageCount },
+        () => setPendingCount((prev) => Math.max(prev - 1, 0)),
+        undefined,
+        controller.signal
+      );
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to generate images");
+      if (!isAbortError(err)) {
+        showError(err, "Failed to generate images");
+      }
     } finally {
+      generateAbortRef.current = null;
       setIsLoading(false);
+      setPendingCount(0);
     }
   };
 
-  const handleRefine = async (parentImage: GeneratedImage) => {
+  // A mask limits the change to the painted region of the parent image
+  const handleRefine = async (parentImage: GeneratedImage, mask?: string | null) => {
     if (!refinementPrompt.trim()) return;
 
-    if (!hasApiKey) {
-      setError("Please enter your Gemini API key first");
-      setIsApiKeyExpanded(true);
-      return;
-    }
+    if (!ensureApiKey()) return;
 
+    const controller = new AbortController();
+    refineAbortRef.current = controller;
     setRefiningImageId(parentImage.id);
     setError(null);
+    setFieldErrors({});
 
-    try {
-      const response = await fetch("/api/generate", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          prompt: `${systemPrompt}\n\nContent to visualize:\n${userContent}\n\nRefinement instructions:\n${refinementPrompt}`,
-          referenceImages: [
-            ...images.map((img) => ({
-              data: img.base64,
-              mimeType: img.mimeType,
-            })),
-            {
-              data: parentImage.base64,
-              mimeType: "image/png",
-            },
-          ],
-          count: 3,
-          apiKey: apiKey,
-        }),
-      });
-
-      if (!response.ok) {
-        let errorMessage = "Failed to refine images";
-        try {
-          const data = await response.json();
-          errorMessage = data.error || errorMessage;
-        } catch {
-          const text = await response.text();
-          if (text.includes("Entity Too Large") || response.status === 413) {
-            errorMessage = "Request too large. Try using fewer or smaller reference images.";
-          } else {
-            errorMessage = text || `Error ${response.status}`;
-          }
-        }
-        throw new Error(errorMessage);
-      }
+    const refinement = refinementPrompt;
+    const { count, useStyleReferences } = refineSettings;
+    const styleReferences = useStyleReferences ? images : [];
+    const request: GenerationRequest = {
+      prompt: buildPrompt(renderedSystemPrompt, userContent, refinement),
+      referenceImages: [
+        ...styleReferences.map((img) => ({
+          data: img.base64,
+          mimeType: img.mimeType,
+        })),
+        {
+          data: parentImage.base64,
+          mimeType: extractMimeType(parentImage.url),
+        },
+      ],
+      aspectRatio,
+      imageSize,
+      mask: mask ? { data: mask, mimeType: "image/png" } : undefined,
+    };
 
-      const data = await response.json();
-      const refinedImages: GeneratedImage[] = data.images
-        .filter((img: string | null) => img !== null)
-        .map((url: string) => ({
-          id: crypto.randomUUID(),
-          url,
-          base64: extractBase64(url),
-          refinements: [],
-        }));
-
-      setGeneratedImages((prev) =>
-        addRefinementsToImage(prev, parentImage.id, refinedImages)
+    try {
+      const provenance: RequestProvenance = {
+        prompt: request.prompt,
+        ...templateProvenance,
+        refinement,
+        aspectRatio,
+        imageSize,
+        referenceNames: [...styleReferences.map((img) => img.file.name), "parent image"],
+        referenceHashes: await Promise.all(request.referenceImages.map((img) => sha256Hex(img.data))),
+        regionMaskHash: mask ? await sha256Hex(mask) : undefined,
+      };
+      await runGeneration(
+        parentImage.id,
+        request,
+        provenance,
+        { count },
+        undefined,
+        "Failed to refine images",
+        controller.signal
       );
       setRefinementPrompt("");
       setSelectedImageId(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to refine images");
+      // A cancelled refine keeps its prompt so it can be resubmitted
+      if (!isAbortError(err)) {
+        showError(err, "Failed to refine images");
+      }
+    } finally {
+      refineAbortRef.current = null;
+      setRefiningImageId(null);
+    }
+  };
+
+  // Combine elements of the picked images. The parents are sent after the
+  // style references, and each result becomes a refinement of every parent.
+  const handleMerge = async () => {
+    if (!mergePrompt.trim() || mergeParents.length < 2) return;
+
+    if (!ensureApiKey()) return;
+
+    const parents = mergeParents;
+    const controller = new AbortController();
+    refineAbortRef.current = controller;
+    // Holds off other refines until the merge finishes
+    setRefiningImageId(parents[0].id);
+    setIsMerging(true);
+    setError(null);
+    setFieldErrors({});
+
+    const refinement = mergePrompt;
+    const { count, useStyleReferences } = refineSettings;
+    const styleReferences = useStyleReferences ? images : [];
+    const request: GenerationRequest = {
+      prompt: buildPrompt(
+        renderedSystemPrompt,
+        userContent,
+        buildMergeInstructions(refinement, parents.length)
+      ),
+      referenceImages: [
+        ...styleReferences.map((img) => ({
+          data: img.base64,
+          mimeType: img.mimeType,
+        })),
+        ...parents.map((img) => ({
+          data: img.base64,
+          mimeType: extractMimeType(img.url),
+        })),
+      ],
+      aspectRatio,
+      imageSize,
+    };
+
+    try {
+      const provenance: RequestProvenance = {
+        prompt: request.prompt,
+        ...templateProvenance,
+        refinement,
+        aspectRatio,
+        imageSize,
+        referenceNames: [
+          ...styleReferences.map((img) => img.file.name),
+          ...parents.map((_, i) => `image ${mergeLetter(i)}`),
+        ],
+        referenceHashes: await Promise.all(request.referenceImages.map((img) => sha256Hex(img.data))),
+        mergedFrom: parents.map((img) => img.id),
+      };
+      await runGeneration(
+        parents[0].id,
+        request,
+        provenance,
+        { count },
+        undefined,
+        "Failed to merge images",
+        controller.signal
+      );
+      setMergePrompt("");
+      setMergeIds([]);
+    } catch (err) {
+      // A cancelled merge keeps its picks and instruction so it can be resubmitted
+      if (!isAbortError(err)) {
+        showError(err, "Failed to merge images");
+      }
     } finally {
+      refineAbortRef.current = null;
       setRefiningImageId(null);
+      setIsMerging(false);
+    }
+  };
+
+  // Regenerate a single failed variation with the exact request that produced it
+  const handleRetrySlot = async (slot: FailedSlot) => {
+    if (!ensureApiKey()) return;
+
+    const controller = new AbortController();
+    retryAbortRefs.current.set(slot.id, controller);
+    setFailedSlots((prev) =>
+      prev.map((s) => (s.id === slot.id ? { ...s, isRetrying: true } : s))
+    );
+
+    try {
+      // The replacement result (image or new failed slot) supersedes this slot
+      await runGeneration(
+        slot.parentId,
+        slot.request,
+        slot.provenance,
+        { indices: [slot.index] },
+        () => setFailedSlots((prev) => prev.filter((s) => s.id !== slot.id)),
+        undefined,
+        controller.signal
+      );
+    } catch (err) {
+      // A cancelled retry keeps its original error
+      setFailedSlots((prev) =>
+        prev.map((s) =>
+          s.id === slot.id
+            ? {
+                ...s,
+                isRetrying: false,
+                error: isAbortError(err) ? s.error : err instanceof Error ? err.message : "Retry failed",
+              }
+            : s
+        )
+      );
+    } finally {
+      retryAbortRefs.current.delete(slot.id);
     }
   };
 
+  const cancelRetry = (slotId: string) => retryAbortRefs.current.get(slotId)?.abort();
+
   const downloadImage = (dataUrl: string, name: string) => {
     const link = document.createElement("a");
     link.href = dataUrl;
@@ -474,132 +792,510 @@ export default function Home() {
     document.body.removeChild(link);
   };
 
-  const canGenerate = images.length > 0 && !isLoading;
+  const exportToExcalidraw = async (id: string, name: string) => {
+    const path = findImagePath(generatedImages, id);
+    if (!path) return;
+    try {
+      await downloadExcalidrawScene(path, name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export to Excalidraw");
+    }
+  };
+
+  // Batch mode: one generation job per item of a loaded file
+  const batch = useBatchQueue();
+
+  const handleLoadBatchFile = async (file: File) => {
+    try {
+      const items = parseBatchFile(file.name, await file.text());
+      if (items.length === 0) {
+        setError(`No content items found in ${file.name}`);
+        return;
+      }
+      setError(null);
+      batch.load(items);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to read ${file.name}`);
+    }
+  };
+
+  // Concept splitter: pick concepts proposed from a long article
+  const handleUseConcept = (concept: Concept) => {
+    setUserContent(`${concept.title}\n\n${concept.description}`);
+  };
+
+  const handleQueueConcepts = (concepts: Concept[]) => {
+    if (batch.isRunning) {
+      setError("Wait for the current batch to finish before queueing more items");
+      return;
+    }
+    setError(null);
+    batch.load(
+      concepts.map((concept) => ({
+        id: crypto.randomUUID(),
+        title: concept.title,
+        content: `${concept.title}\n\n${concept.description}`,
+      }))
+    );
+  };
+
+  // Every item uses the references and prompt settings in place when the batch starts
+  const handleStartBatch = () => {
+    if (!ensureApiKey()) return;
+
+    if (images.length === 0) {
+      setError("Please upload at least one reference image");
+      return;
+    }
+
+    setError(null);
+    const referenceImages = images.map((img) => ({ data: img.base64, mimeType: img.mimeType }));
+    const referenceNames = images.map((img) => img.file.name);
+    const referenceHashes = Promise.all(referenceImages.map((img) => sha256Hex(img.data)));
+    const batchApiKey = needsClientKey ? apiKey : undefined;
+
+    batch.start(async (item, signal, { onImage, onError }) => {
+      const prompt = buildPrompt(renderedSystemPrompt, item.content);
+      const provenance: RequestProvenance = {
+        prompt,
+        ...templateProvenance,
+        aspectRatio,
+        imageSize,
+        referenceNames,
+        referenceHashes: await referenceHashes,
+        // Each item becomes a run of its own when opened in the editor
+        runId: crypto.randomUUID(),
+      };
+      await streamGenerate(
+        { prompt, referenceImages, aspectRatio, imageSize, count: imageCount, apiKey: batchApiKey },
+        (result) => {
+          if (result.image) {
+            onImage(toGeneratedImage(result, result.image, provenance));
+          } else {
+            onError(`Variation ${result.index + 1}: ${result.error || "Unknown error"}`);
+          }
+        },
+        "Failed to generate images",
+        signal
+      );
+    });
+  };
+
+  // Add the item's images to the tree as a new run; opening it again adds
+  // only the images that aren't there already
+  const openBatchItem = (job: BatchJob) => {
+    setUserContent(job.content);
+    setGeneratedImages((prev) => [...prev, ...job.images.filter((img) => !findImageById(prev, img.id))]);
+    setSelectedImageId(null);
+  };
+
+  const downloadBatch = (jobs: BatchJob[]) => {
+    const branches = jobs
+      .filter((job) => job.images.length > 0)
+      .map((job) => ({
+        images: job.images,
+        parentId: null,
+        depth: 0,
+        prefix: `item-${batch.jobs.indexOf(job) + 1}`,
+        group: job.title,
+      }));
+    downloadImagesZip(branches, jobs.length === 1 ? branches[0].prefix : "excalidraw-batch");
+  };
+
+  const downloadAll = () => {
+    downloadImagesZip(
+      { images: generatedImages, parentId: null, depth: 0, prefix: "image" },
+      "excalidraw-session"
+    );
+  };
+
+  const downloadBranch = (id: string) => {
+    const path = findImagePath(generatedImages, id);
+    if (!path) return;
+    downloadImagesZip(
+      {
+        images: [path[path.length - 1]],
+        parentId: path.length > 1 ? path[path.length - 2].id : null,
+        depth: path.length - 1,
+        prefix: "branch",
+      },
+      `excalidraw-branch-depth${path.length - 1}`
+    );
+  };
+
+  const rootFailedSlots = failedSlots.filter((slot) => slot.parentId === null);
+  const runs = groupRuns(generatedImages, [
+    ...rootFailedSlots.map((slot) => slot.provenance.runId ?? ""),
+    ...(pendingCount > 0 && activeRunId ? [activeRunId] : []),
+  ]);
+  const hasChildren = (img: GeneratedImage) =>
+    img.refinements.length > 0 || failedSlots.some((slot) => slot.parentId === img.id);
+
+  const modalImage = modalImageId ? findImageById(generatedImages, modalImageId) : null;
+  const selectedImage = selectedImageId ? findImageById(generatedImages, selectedImageId) : null;
+  const selectedTopLevelImage =
+    selectedImage && generatedImages.includes(selectedImage) ? selectedImage : null;
+  const modalSiblings = modalImage ? findSiblings(generatedImages, modalImage.id) ?? [] : [];
+  const closeViewer = useCallback(() => setModalImageId(null), []);
+
+  const toggleFavorite = (id: string) => {
+    setGeneratedImages((prev) => updateImageById(prev, id, (img) => ({ ...img, favorite: !img.favorite })));
+  };
+
+  const setRating = (id: string, rating: number | undefined) => {
+    setGeneratedImages((prev) => updateImageById(prev, id, (img) => ({ ...img, rating })));
+  };
+
+  // Remove an image and all its refinements; merged refinements that also
+  // sit under a parent outside the branch stay there
+  const pruneBranch = (id: string) => {
+    const image = findImageById(generatedImages, id);
+    if (!image) return;
+    const remaining = removeImageById(generatedImages, id);
+    const removedIds = [...collectBranchIds(image)].filter((branchId) => !findImageById(remaining, branchId));
+    const isRemoved = (imageId: string | null) => imageId !== null && removedIds.includes(imageId);
+
+    setPrunedBranch({
+      image,
+      label: imageLabel(generatedImages, id),
+      imageCount: removedIds.length,
+      placements: findPlacements(generatedImages, id),
+      // Their retries are cancelled below, so they come back ready to retry
+      failedSlots: failedSlots
+        .filter((slot) => isRemoved(slot.parentId))
+        .map((slot) => ({ ...slot, isRetrying: false })),
+    });
+    failedSlots
+      .filter((slot) => isRemoved(slot.parentId))
+      .forEach((slot) => retryAbortRefs.current.get(slot.id)?.abort());
+    setGeneratedImages((prev) => removeImageById(prev, id));
+    setFailedSlots((prev) => prev.filter((slot) => !isRemoved(slot.parentId)));
+    setCompareIds((prev) => prev.filter((compareId) => !isRemoved(compareId)));
+    setMergeIds((prev) => prev.filter((mergeId) => !isRemoved(mergeId)));
+    if (isRemoved(selectedImageId)) setSelectedImageId(null);
+    if (isRemoved(modalImageId)) setModalImageId(null);
+  };
+
+  const undoPrune = () => {
+    if (!prunedBranch) return;
+    const { image, placements } = prunedBranch;
+    // Already back, e.g. through the undo history
+    if (findImageById(generatedImages, image.id)) {
+      setPrunedBranch(null);
+      return;
+    }
+    setGeneratedImages((prev) => {
+      const restored = reconcileBranch(image, prev);
+      return placements.reduce((tree, placement) => insertImageAt(tree, placement, restored), prev);
+    });
+    setFailedSlots((prev) => [...prev, ...prunedBranch.failedSlots]);
+    setPrunedBranch(null);
+  };
+
+  const firstParentIds = useMemo(() => findFirstParents(generatedImages), [generatedImages]);
+  const isShown = (img: GeneratedImage) => !favoritesOnly || hasFavorite(img);
+
+  // Highest rated first; unrated favorites keep their tree order
+  const shortlist: ShortlistItem[] = collectFavorites(generatedImages)
+    .sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0))
+    .map((image) => ({ image, label: imageLabel(generatedImages, image.id) }));
+
+  const compareShortlist = () => {
+    setCompareIds(shortlist.slice(0, MAX_COMPARE_IMAGES).map(({ image }) => image.id));
+    setCompareFocus(0);
+    setIsCompareOpen(true);
+  };
+
+  // Just the shortlisted images, without their refinements
+  const downloadShortlist = () => {
+    const branches = shortlist.map(({ image }, i) => {
+      const path = findImagePath(generatedImages, image.id) ?? [image];
+      return {
+        images: [{ ...image, refinements: [] }],
+        parentId: path.length > 1 ? path[path.length - 2].id : null,
+        depth: path.length - 1,
+        prefix: `shortlist-${i + 1}`,
+      };
+    });
+    downloadImagesZip(branches, "excalidraw-shortlist");
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((prev) =>
+      prev.includes(id)
+        ? prev.filter((compareId) => compareId !== id)
+        : prev.length < MAX_COMPARE_IMAGES
+          ? [...prev, id]
+          : prev
+    );
+  };
+
+  // Parent first, so the before/after slider shows it against each refinement
+  const compareWithParent = (parentId: string, refinements: GeneratedImage[]) => {
+    setCompareIds([parentId, ...refinements.slice(0, MAX_COMPARE_IMAGES - 1).map((img) => img.id)]);
+    setCompareFocus(1);
+    setIsCompareOpen(true);
+  };
+
+  const closeCompare = useCallback(() => setIsCompareOpen(false), []);
+
+  const removeFromCompare = (id: string) => {
+    const remaining = compareIds.filter((compareId) => compareId !== id);
+    setCompareIds(remaining);
+    setCompareFocus((focus) => Math.min(focus, Math.max(remaining.length - 1, 0)));
+    if (remaining.length < 2) setIsCompareOpen(false);
+  };
+
+  const toggleMerge = (id: string) => {
+    if (isMerging) return;
+    setMergeIds((prev) =>
+      prev.includes(id)
+        ? prev.filter((mergeId) => mergeId !== id)
+        : prev.length < MAX_MERGE_PARENTS
+          ? [...prev, id]
+          : prev
+    );
+  };
+
+  const mergeParents = mergeIds.flatMap((id) => {
+    const img = findImageById(generatedImages, id);
+    return img ? [img] : [];
+  });
+
+  const compareItems: CompareItem[] = compareIds.flatMap((id) => {
+    const img = findImageById(generatedImages, id);
+    return img
+      ? [{ id, url: img.url, label: imageLabel(generatedImages, id), refinement: img.provenance?.refinement }]
+      : [];
+  });
+  const canGenerate = images.length > 0 && !isLoading && isCapabilitiesLoaded;
+  const referenceErrors = Object.entries(fieldErrors)
+    .filter(([field]) => field.startsWith("referenceImages"))
+    .map(([, message]) => message);
+  // Base64 reference data dominates the JSON body; the prompt adds the rest
+  const referenceBytes = images.reduce((total, img) => total + base64ByteLength(img.base64), 0);
+  const estimatedRequestBytes =
+    images.reduce((total, img) => total + img.base64.length, 0) +
+    systemPrompt.length +
+    userContent.length;
+  const controlErrors = CONTROL_FIELDS.map((field) => fieldErrors[field]).filter(Boolean);
+  const selectClassName = (field: string) =>
+    `w-full px-4 py-3 rounded-lg border ${
+      fieldErrors[field] ? "border-red-500" : "border-gray-300 dark:border-gray-600"
+    } bg-white dark:bg-gray-800 text-foreground focus:ring-2 focus:ring-blue-500 focus:border-transparent`;
 
   return (
     <main className="min-h-screen p-8 max-w-6xl mx-auto">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold mb-2 text-foreground">
-          Excalidraw Style Generator
-        </h1>
-        <p className="text-gray-600 dark:text-gray-400">
-          Generate images in Excalidraw style, then iterate and refine your designs.
-        </p>
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2 text-foreground">
+            Excalidraw Style Generator
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Generate images in Excalidraw style, then iterate and refine your designs.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={history.undo}
+            disabled={!history.canUndo}
+            title="Undo (Ctrl+Z)"
+            className="p-2 rounded-lg border border-gray-300 dark:border-gray-600 text-foreground hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 15L3 9m0 0l6-6M3 9h12a6 6 0 010 12h-3" />
+            </svg>
+          </button>
+          <button
+            onClick={history.redo}
+            disabled={!history.canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            className="p-2 rounded-lg border border-gray-300 dark:border-gray-600 text-foreground hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 15l6-6m0 0l-6-6m6 6H9a6 6 0 000 12h3" />
+            </svg>
+          </button>
+          <button
+            onClick={() => setIsSessionsOpen(true)}
+            className="px-4 py-2 rounded-lg font-medium border border-gray-300 dark:border-gray-600 text-foreground hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors flex items-center gap-2"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+            </svg>
+            Sessions
+          </button>
+        </div>
       </div>
 
+      {shortlist.length > 0 && (
+        <Shortlist
+          items={shortlist}
+          onOpen={setModalImageId}
+          onRemove={toggleFavorite}
+          onRate={setRating}
+          onCompare={compareShortlist}
+          onDownload={downloadShortlist}
+        />
+      )}
+
+      <SessionSidebar
+        isOpen={isSessionsOpen}
+        sessions={sessions}
+        currentSessionId={currentSessionId}
+        onClose={() => setIsSessionsOpen(false)}
+        onNew={() => {
+          newSession();
+          setIsSessionsOpen(false);
+        }}
+        onOpen={(id) => {
+          openSession(id);
+          setIsSessionsOpen(false);
+        }}
+        onRename={renameSession}
+        onDelete={deleteSession}
+      />
+
       {/* API Key Configuration */}
-      <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700">
-        <div
-          className="flex items-center justify-between cursor-pointer"
-          onClick={() => setIsApiKeyExpanded(!isApiKeyExpanded)}
-        >
-          <div className="flex items-center gap-3">
-            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+      {needsClientKey && (
+        <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700">
+          <div
+            className="flex items-center justify-between cursor-pointer"
+            onClick={() => setIsApiKeyExpanded(!isApiKeyExpanded)}
+          >
+            <div className="flex items-center gap-3">
+              <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+              </svg>
+              <span className="font-medium text-foreground">Gemini API Key</span>
+              {hasApiKey ? (
+                <span className="text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 px-2 py-1 rounded-full">
+                  Configured
+                </span>
+              ) : (
+                <span className="text-xs bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400 px-2 py-1 rounded-full">
+                  Required
+                </span>
+              )}
+            </div>
+            <svg
+              className={`w-5 h-5 text-gray-500 transition-transform ${isApiKeyExpanded ? "rotate-180" : ""}`}
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
             </svg>
-            <span className="font-medium text-foreground">Gemini API Key</span>
-            {hasApiKey ? (
-              <span className="text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 px-2 py-1 rounded-full">
-                Configured
-              </span>
-            ) : (
-              <span className="text-xs bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400 px-2 py-1 rounded-full">
-                Required
-              </span>
-            )}
           </div>
-          <svg
-            className={`w-5 h-5 text-gray-500 transition-transform ${isApiKeyExpanded ? "rotate-180" : ""}`}
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-          >
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-          </svg>
-        </div>
 
-        {isApiKeyExpanded && (
-          <div className="mt-4 space-y-3">
-            <div className="flex gap-2">
-              <div className="relative flex-1">
-                <input
-                  type={showApiKey ? "text" : "password"}
-                  value={apiKeyInput}
-                  onChange={(e) => setApiKeyInput(e.target.value)}
-                  placeholder="Enter your Gemini API key..."
-                  className="w-full px-4 py-2 pr-10 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-foreground focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                />
+          {isApiKeyExpanded && (
+            <div className="mt-4 space-y-3">
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <input
+                    type={showApiKey ? "text" : "password"}
+                    value={apiKeyInput}
+                    onChange={(e) => setApiKeyInput(e.target.value)}
+                    placeholder="Enter your Gemini API key..."
+                    className="w-full px-4 py-2 pr-10 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-foreground focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowApiKey(!showApiKey)}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                  >
+                    {showApiKey ? (
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+                      </svg>
+                    ) : (
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                      </svg>
+                    )}
+                  </button>
+                </div>
                 <button
-                  type="button"
-                  onClick={() => setShowApiKey(!showApiKey)}
-                  className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                  onClick={handleSaveApiKey}
+                  disabled={!apiKeyInput.trim()}
+                  className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                    apiKeyInput.trim()
+                      ? "bg-blue-600 hover:bg-blue-700 text-white"
+                      : "bg-gray-300 dark:bg-gray-600 text-gray-500 cursor-not-allowed"
+                  }`}
                 >
-                  {showApiKey ? (
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
-                    </svg>
-                  ) : (
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                    </svg>
-                  )}
+                  Save
                 </button>
+                {hasApiKey && (
+                  <button
+                    onClick={handleClearApiKey}
+                    className="px-4 py-2 rounded-lg font-medium text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                  >
+                    Clear
+                  </button>
+                )}
               </div>
-              <button
-                onClick={handleSaveApiKey}
-                disabled={!apiKeyInput.trim()}
-                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                  apiKeyInput.trim()
-                    ? "bg-blue-600 hover:bg-blue-700 text-white"
-                    : "bg-gray-300 dark:bg-gray-600 text-gray-500 cursor-not-allowed"
-                }`}
-              >
-                Save
-              </button>
-              {hasApiKey && (
-                <button
-                  onClick={handleClearApiKey}
-                  className="px-4 py-2 rounded-lg font-medium text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+              <p className="text-sm text-gray-500">
+                Get your API key from{" "}
+                <a
+                  href="https://aistudio.google.com/app/apikey"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline"
                 >
-                  Clear
-                </button>
-              )}
+                  Google AI Studio
+                </a>
+                . Your key is stored locally in your browser and never sent to our servers.
+              </p>
             </div>
-            <p className="text-sm text-gray-500">
-              Get your API key from{" "}
-              <a
-                href="https://aistudio.google.com/app/apikey"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-blue-600 hover:underline"
-              >
-                Google AI Studio
-              </a>
-              . Your key is stored locally in your browser and never sent to our servers.
-            </p>
-          </div>
-        )}
-      </div>
+          )}
+        </div>
+      )}
 
       <div className="space-y-6">
+        <StylePresetPicker
+          systemPrompt={systemPrompt}
+          references={images}
+          onApply={(references, presetSystemPrompt) => {
+            setImages(references);
+            setSystemPrompt(presetSystemPrompt);
+            // The preset's prompt isn't a saved template version, and the
+            // variables filled in for the old one don't apply to it
+            setActiveTemplateId(null);
+            setPromptVariables({});
+          }}
+          onError={setError}
+        />
+
         <ImageUploader
           images={images}
           onImagesChange={setImages}
-          maxImages={3}
+          encoding={referenceEncoding}
+          onEncodingChange={setReferenceEncoding}
+          maxImages={MAX_STYLE_REFERENCES}
         />
+        {referenceErrors.length > 0 && (
+          <ul className="-mt-4 space-y-1 text-sm text-red-600 dark:text-red-400">
+            {referenceErrors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        )}
 
-        <div>
-          <label className="block text-sm font-medium mb-2 text-foreground">
-            System Prompt
-          </label>
-          <textarea
-            value={systemPrompt}
-            onChange={(e) => setSystemPrompt(e.target.value)}
-            rows={3}
-            className="w-full px-4 py-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-900 text-foreground text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-          />
-        </div>
+        <PromptTemplatePanel
+          templates={templates}
+          activeTemplate={activeTemplate}
+          onSelectTemplate={handleSelectTemplate}
+          onSaveVersion={handleSaveTemplateVersion}
+          onSaveAsNew={handleSaveTemplateAsNew}
+          onDeleteTemplate={handleDeleteTemplate}
+          systemPrompt={systemPrompt}
+          onSystemPromptChange={setSystemPrompt}
+          variableValues={promptVariables}
+          onVariableValuesChange={setPromptVariables}
+          previewPrompt={buildPrompt(renderedSystemPrompt, userContent)}
+        />
 
         <div>
           <label className="block text-sm font-medium mb-2 text-foreground">
@@ -612,6 +1308,16 @@ export default function Home() {
             className="w-full px-4 py-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-foreground focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
             placeholder="Paste your article, information, or describe what you want to visualize..."
           />
+          {fieldErrors.prompt && (
+            <p className="mt-1 text-sm text-red-600 dark:text-red-400">{fieldErrors.prompt}</p>
+          )}
+          <ConceptSplitter
+            article={userContent}
+            apiKey={needsClientKey ? apiKey : undefined}
+            ensureApiKey={ensureApiKey}
+            onUse={handleUseConcept}
+            onQueue={handleQueueConcepts}
+          />
         </div>
 
         {error && (
@@ -629,7 +1335,7 @@ export default function Home() {
               value={imageCount}
               onChange={(e) => setImageCount(Number(e.target.value))}
               disabled={isLoading}
-              className="w-full px-4 py-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-foreground focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              className={selectClassName("count")}
             >
               {[4, 5, 6, 7, 8, 9, 10].map((num) => (
                 <option key={num} value={num}>
@@ -638,10 +1344,44 @@ export default function Home() {
               ))}
             </select>
           </div>
+          <div className="flex-1">
+            <label className="block text-sm font-medium mb-2 text-foreground">
+              Aspect Ratio
+            </label>
+            <select
+              value={aspectRatio}
+              onChange={(e) => setAspectRatio(e.target.value as AspectRatio)}
+              disabled={isLoading}
+              className={selectClassName("aspectRatio")}
+            >
+              {ASPECT_RATIOS.map((ratio) => (
+                <option key={ratio} value={ratio}>
+                  {ratio}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-medium mb-2 text-foreground">
+              Image Size
+            </label>
+            <select
+              value={imageSize}
+              onChange={(e) => setImageSize(e.target.value as ImageSize)}
+              disabled={isLoading}
+              className={selectClassName("imageSize")}
+            >
+              {IMAGE_SIZES.map((size) => (
+                <option key={size} value={size}>
+                  {size}
+                </option>
+              ))}
+            </select>
+          </div>
           <button
             onClick={handleGenerate}
             disabled={!canGenerate}
-            className={`flex-[3] py-3 px-6 rounded-lg font-medium text-white transition-colors duration-200 ${
+            className={`flex-[2] py-3 px-6 rounded-lg font-medium text-white transition-colors duration-200 ${
               canGenerate
                 ? "bg-blue-600 hover:bg-blue-700 cursor-pointer"
                 : "bg-gray-400 cursor-not-allowed"
@@ -659,189 +1399,454 @@ export default function Home() {
               `Generate ${imageCount} Images`
             )}
           </button>
+          {isLoading && (
+            <button
+              onClick={cancelGeneration}
+              className="py-3 px-6 rounded-lg font-medium border border-gray-300 dark:border-gray-600 text-foreground hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
         </div>
 
+        {controlErrors.length > 0 && (
+          <ul className="-mt-4 space-y-1 text-sm text-red-600 dark:text-red-400">
+            {controlErrors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        )}
+
+        {images.length > 0 && (
+          <p
+            className={`-mt-4 text-sm ${
+              referenceBytes > MAX_TOTAL_REFERENCE_BYTES ? "text-red-600 dark:text-red-400" : "text-gray-500"
+            }`}
+          >
+            Estimated request size: {formatBytes(estimatedRequestBytes)} (references{" "}
+            {formatBytes(referenceBytes)} of {formatBytes(MAX_TOTAL_REFERENCE_BYTES)} allowed). Refining
+            also sends the parent image.
+          </p>
+        )}
+
+        {IMAGE_SIZE_HINTS[imageSize] && (
+          <p className="-mt-4 text-sm text-yellow-700 dark:text-yellow-400">
+            {IMAGE_SIZE_HINTS[imageSize]}
+          </p>
+        )}
+
+        <BatchPanel
+          jobs={batch.jobs}
+          isRunning={batch.isRunning}
+          isPaused={batch.isPaused}
+          variationsPerItem={imageCount}
+          onLoadFile={handleLoadBatchFile}
+          onStart={handleStartBatch}
+          onPause={batch.pause}
+          onResume={batch.resume}
+          onClear={batch.clear}
+          onRetry={batch.retry}
+          onOpen={openBatchItem}
+          onDownload={downloadBatch}
+        />
+
         {/* Generated Images Grid */}
-        {generatedImages.length > 0 && (
+        {(generatedImages.length > 0 || rootFailedSlots.length > 0 || pendingCount > 0) && (
           <div className="space-y-6">
-            <div>
-              <h2 className="text-lg font-medium text-foreground">
-                Generated Images ({generatedImages.length})
-              </h2>
-              <p className="text-sm text-gray-500">Click an image to select it for refinement</p>
-            </div>
-
-            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
-              {generatedImages.map((img, index) => (
-                <div
-                  key={img.id}
-                  className={`relative group cursor-pointer rounded-lg overflow-hidden border-4 transition-all ${
-                    selectedImageId === img.id
-                      ? "border-blue-500 ring-2 ring-blue-300"
-                      : "border-transparent hover:border-gray-300"
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h2 className="text-lg font-medium text-foreground">
+                  Generated Images ({generatedImages.length})
+                </h2>
+                <p className="text-sm text-gray-500">
+                  Click an image to select it for refinement, or shift-click two or three to merge them
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setFavoritesOnly(!favoritesOnly)}
+                  title="Show only branches that lead to a favorite"
+                  className={`px-3 py-2 rounded-lg text-sm border transition-colors flex items-center gap-1.5 ${
+                    favoritesOnly
+                      ? "border-yellow-400 bg-yellow-50 dark:bg-yellow-900/30 text-foreground font-medium"
+                      : "border-gray-300 dark:border-gray-600 text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-800"
                   }`}
-                  onClick={() => setSelectedImageId(selectedImageId === img.id ? null : img.id)}
                 >
-                  <img
-                    src={img.url}
-                    alt={`Generated ${index + 1}`}
-                    className="w-full aspect-video object-cover"
-                  />
-                  <div className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-colors" />
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      setModalImage(img.url);
-                    }}
-                    className="absolute top-2 left-2 bg-black/50 hover:bg-black/70 text-white rounded-full w-8 h-8 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
-                  >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v3m0 0v3m0-3h3m-3 0H7" />
-                    </svg>
-                  </button>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      downloadImage(img.url, `generated-${index + 1}`);
-                    }}
-                    className="absolute top-2 right-2 bg-black/50 hover:bg-black/70 text-white rounded-full w-8 h-8 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                  <svg
+                    className={`w-4 h-4 ${favoritesOnly ? "text-yellow-400" : ""}`}
+                    fill={favoritesOnly ? "currentColor" : "none"}
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
                   >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                    </svg>
-                  </button>
-                  {selectedImageId === img.id && (
-                    <div className="absolute bottom-2 left-1/2 -translate-x-1/2 bg-blue-500 text-white text-xs px-2 py-1 rounded">
-                      Selected
-                    </div>
-                  )}
-                </div>
-              ))}
-            </div>
-
-            {/* Refinement input - only for top-level images */}
-            {selectedImageId && generatedImages.some(img => img.id === selectedImageId) && (
-              <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800 space-y-3">
-                <div className="flex items-center gap-3">
-                  <img
-                    src={findImageById(generatedImages, selectedImageId!)?.url}
-                    alt="Selected"
-                    className="w-20 h-12 object-cover rounded"
-                  />
-                  <div className="flex-1">
-                    <label className="block text-sm font-medium text-foreground mb-1">
-                      Refine this image
-                    </label>
-                    <p className="text-xs text-gray-500">Describe what changes you want to make</p>
-                  </div>
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={STAR_PATH} />
+                  </svg>
+                  Favorites only
+                </button>
+                <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden text-sm">
+                  {(["rows", "graph"] as const).map((view) => (
+                    <button
+                      key={view}
+                      onClick={() => setTreeView(view)}
+                      className={`px-3 py-2 capitalize transition-colors ${
+                        treeView === view
+                          ? "bg-gray-100 dark:bg-gray-800 text-foreground font-medium"
+                          : "text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-800"
+                      }`}
+                    >
+                      {view}
+                    </button>
+                  ))}
                 </div>
-                <textarea
-                  value={refinementPrompt}
-                  onChange={(e) => setRefinementPrompt(e.target.value)}
-                  rows={3}
-                  className="w-full px-4 py-3 rounded-lg border border-blue-300 dark:border-blue-600 bg-white dark:bg-gray-800 text-foreground focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-                  placeholder="What should be changed? e.g., 'Make the colors more vibrant' or 'Add more detail to the background'"
-                />
                 <button
-                  onClick={() => {
-                    const img = findImageById(generatedImages, selectedImageId!);
-                    if (img) handleRefine(img);
-                  }}
-                  disabled={!refinementPrompt.trim() || refiningImageId !== null}
-                  className={`w-full py-3 px-4 rounded-lg font-medium text-white transition-colors ${
-                    refinementPrompt.trim() && refiningImageId === null
-                      ? "bg-blue-600 hover:bg-blue-700"
-                      : "bg-gray-400 cursor-not-allowed"
-                  }`}
+                  onClick={downloadAll}
+                  className="px-4 py-2 rounded-lg font-medium border border-gray-300 dark:border-gray-600 text-foreground hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors flex items-center gap-2"
                 >
-                  {refiningImageId ? (
-                    <span className="flex items-center justify-center gap-2">
-                      <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                      </svg>
-                      Generating 3 Variations...
-                    </span>
-                  ) : (
-                    "Refine → Generate 3 Variations"
-                  )}
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                  </svg>
+                  Download all
                 </button>
               </div>
+            </div>
+
+            {favoritesOnly && shortlist.length === 0 && (
+              <p className="text-sm text-gray-500">
+                No favorites yet. Star an image to keep it here and in the shortlist.
+              </p>
+            )}
+
+            {mergeParents.length > 0 && (
+              <MergePanel
+                parents={mergeParents.map((img) => ({
+                  id: img.id,
+                  url: img.url,
+                  label: imageLabel(generatedImages, img.id),
+                }))}
+                instruction={mergePrompt}
+                onInstructionChange={setMergePrompt}
+                count={refineSettings.count}
+                onCountChange={(count) => setRefineSettings({ ...refineSettings, count })}
+                useStyleReferences={refineSettings.useStyleReferences}
+                onUseStyleReferencesChange={(useStyleReferences) =>
+                  setRefineSettings({ ...refineSettings, useStyleReferences })
+                }
+                onRemove={toggleMerge}
+                onClear={() => setMergeIds([])}
+                onMerge={handleMerge}
+                onCancel={cancelRefine}
+                isMerging={isMerging}
+                isBusy={refiningImageId !== null}
+              />
             )}
 
-            {/* Refinement results - recursive tree */}
-            {generatedImages.some(img => img.refinements.length > 0) && (
+            {treeView === "graph" ? (
               <div className="space-y-4">
-                <h3 className="text-lg font-medium text-foreground">Refined Variations</h3>
-                <p className="text-sm text-gray-500">Click any image to select it for further refinement</p>
-                {generatedImages.filter(img => img.refinements.length > 0).map((img) => (
-                  <RefinementTree
-                    key={img.id}
-                    parentLabel={`Image ${generatedImages.indexOf(img) + 1}`}
-                    refinements={img.refinements}
-                    depth={0}
-                    selectedImageId={selectedImageId}
-                    onSelect={setSelectedImageId}
-                    onPreview={setModalImage}
-                    onDownload={downloadImage}
+                <RefinementGraph
+                  images={generatedImages}
+                  selectedImageId={selectedImageId}
+                  onSelect={setSelectedImageId}
+                  onPreview={setModalImageId}
+                  mergeIds={mergeIds}
+                  onToggleMerge={toggleMerge}
+                  favoritesOnly={favoritesOnly}
+                />
+                {(pendingCount > 0 || refiningImageId) && (
+                  <p className="text-sm text-gray-500">
+                    Generating... new images join the graph as they arrive
+                  </p>
+                )}
+                {failedSlots.length > 0 && (
+                  <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+                    {failedSlots.map((slot) => (
+                      <FailedSlotCard
+                        key={slot.id}
+                        index={slot.index}
+                        error={slot.error}
+                        attempts={slot.attempts}
+                        isRetrying={slot.isRetrying}
+                        onRetry={() => handleRetrySlot(slot)}
+                        onCancel={() => cancelRetry(slot.id)}
+                      />
+                    ))}
+                  </div>
+                )}
+                {selectedImage && (
+                  <RefinePanel
+                    key={selectedImage.id}
+                    image={selectedImage}
+                    onDownloadBranch={downloadBranch}
                     refinementPrompt={refinementPrompt}
                     onRefinementPromptChange={setRefinementPrompt}
                     onRefine={handleRefine}
+                    onCancelRefine={cancelRefine}
                     refiningImageId={refiningImageId}
+                    refineSettings={refineSettings}
+                    onRefineSettingsChange={setRefineSettings}
+                    onRate={setRating}
+                    onPrune={pruneBranch}
                   />
-                ))}
+                )}
               </div>
+            ) : (
+              runs.map((run, runIndex) => (
+                <div key={run.id || "earlier"} className="space-y-6">
+                  {runs.length > 1 && (
+                    <div className="flex items-baseline gap-3 pb-2 border-b border-gray-200 dark:border-gray-700">
+                      <h3 className="text-base font-medium text-foreground">Run {runIndex + 1}</h3>
+                      <p className="text-sm text-gray-500">{runSummary(run)}</p>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+                    {run.images.map((img) => isShown(img) && (
+                      <div
+                        key={img.id}
+                        className={`relative group cursor-pointer rounded-lg overflow-hidden border-4 transition-all ${
+                          selectedImageId === img.id
+                            ? "border-blue-500 ring-2 ring-blue-300"
+                            : "border-transparent hover:border-gray-300"
+                        } ${favoritesOnly && !img.favorite ? "opacity-40" : ""}`}
+                        onClick={(e) =>
+                          isMergeClick(e)
+                            ? toggleMerge(img.id)
+                            : setSelectedImageId(selectedImageId === img.id ? null : img.id)
+                        }
+                      >
+                        <img
+                          src={img.url}
+                          alt={`Generated ${generatedImages.indexOf(img) + 1}`}
+                          className="w-full aspect-video object-cover"
+                        />
+                        <div className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-colors" />
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setModalImageId(img.id);
+                          }}
+                          className="absolute top-2 left-2 bg-black/50 hover:bg-black/70 text-white rounded-full w-8 h-8 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v3m0 0v3m0-3h3m-3 0H7" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            downloadImage(img.url, `generated-${generatedImages.indexOf(img) + 1}`);
+                          }}
+                          className="absolute top-2 right-2 bg-black/50 hover:bg-black/70 text-white rounded-full w-8 h-8 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            exportToExcalidraw(img.id, `generated-${generatedImages.indexOf(img) + 1}`);
+                          }}
+                          title="Export to Excalidraw"
+                          className="absolute top-2 right-12 bg-black/50 hover:bg-black/70 text-white rounded-full w-8 h-8 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                          </svg>
+                        </button>
+                        <FavoriteToggle favorite={Boolean(img.favorite)} onToggle={() => toggleFavorite(img.id)} />
+                        <ImageDetailsPopover provenance={img.provenance} className="absolute bottom-2 right-2" />
+                        <CompareToggle
+                          position={compareIds.indexOf(img.id) + 1}
+                          disabled={!compareIds.includes(img.id) && compareIds.length >= MAX_COMPARE_IMAGES}
+                          onToggle={() => toggleCompare(img.id)}
+                        />
+                        <MergeBadge index={mergeIds.indexOf(img.id)} />
+                        {selectedImageId === img.id && (
+                          <div className="absolute bottom-2 left-1/2 -translate-x-1/2 bg-blue-500 text-white text-xs px-2 py-1 rounded">
+                            Selected
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                    {rootFailedSlots.filter((slot) => (slot.provenance.runId ?? "") === run.id).map((slot) => (
+                      <FailedSlotCard
+                        key={slot.id}
+                        index={slot.index}
+                        error={slot.error}
+                        attempts={slot.attempts}
+                        isRetrying={slot.isRetrying}
+                        onRetry={() => handleRetrySlot(slot)}
+                        onCancel={() => cancelRetry(slot.id)}
+                      />
+                    ))}
+                    {run.id === activeRunId && Array.from({ length: pendingCount }).map((_, i) => (
+                      <div
+                        key={`pending-${i}`}
+                        className="aspect-video bg-gray-200 dark:bg-gray-700 rounded-lg animate-pulse flex items-center justify-center"
+                      >
+                        <div className="w-8 h-8 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Refinement input - only for top-level images */}
+                  {selectedTopLevelImage && run.images.includes(selectedTopLevelImage) && (
+                    <RefinePanel
+                      key={selectedTopLevelImage.id}
+                      image={selectedTopLevelImage}
+                      onDownloadBranch={downloadBranch}
+                      refinementPrompt={refinementPrompt}
+                      onRefinementPromptChange={setRefinementPrompt}
+                      onRefine={handleRefine}
+                      onCancelRefine={cancelRefine}
+                      refiningImageId={refiningImageId}
+                      refineSettings={refineSettings}
+                      onRefineSettingsChange={setRefineSettings}
+                      onRate={setRating}
+                      onPrune={pruneBranch}
+                    />
+                  )}
+
+                  {/* Refinement results - recursive tree */}
+                  {run.images.some((img) => isShown(img) && hasChildren(img)) && (
+                    <div className="space-y-4">
+                      <h3 className="text-lg font-medium text-foreground">Refined Variations</h3>
+                      <p className="text-sm text-gray-500">Click any image to select it for further refinement</p>
+                      {run.images.filter((img) => isShown(img) && hasChildren(img)).map((img) => (
+                        <RefinementTree
+                          key={img.id}
+                          parentLabel={`Image ${generatedImages.indexOf(img) + 1}`}
+                          parentId={img.id}
+                          parentUrl={img.url}
+                          refinements={img.refinements}
+                          depth={0}
+                          selectedImageId={selectedImageId}
+                          onSelect={setSelectedImageId}
+                          onPreview={setModalImageId}
+                          onDownload={downloadImage}
+                          onExport={exportToExcalidraw}
+                          onDownloadBranch={downloadBranch}
+                          refinementPrompt={refinementPrompt}
+                          onRefinementPromptChange={setRefinementPrompt}
+                          onRefine={handleRefine}
+                          onCancelRefine={cancelRefine}
+                          refiningImageId={refiningImageId}
+                          refineSettings={refineSettings}
+                          onRefineSettingsChange={setRefineSettings}
+                          failedSlots={failedSlots}
+                          onRetrySlot={handleRetrySlot}
+                          onCancelRetry={cancelRetry}
+                          compareIds={compareIds}
+                          onToggleCompare={toggleCompare}
+                          onCompareWithParent={compareWithParent}
+                          mergeIds={mergeIds}
+                          onToggleMerge={toggleMerge}
+                          firstParentIds={firstParentIds}
+                          favoritesOnly={favoritesOnly}
+                          onToggleFavorite={toggleFavorite}
+                          onRate={setRating}
+                          onPrune={pruneBranch}
+                          rootImages={generatedImages}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))
             )}
           </div>
         )}
+      </div>
 
-        {/* Loading state for initial generation */}
-        {isLoading && generatedImages.length === 0 && (
-          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
-            {Array.from({ length: imageCount }).map((_, i) => (
-              <div
-                key={i}
-                className="aspect-video bg-gray-200 dark:bg-gray-700 rounded-lg animate-pulse flex items-center justify-center"
-              >
-                <div className="w-8 h-8 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
-              </div>
+      {/* Undo for the last pruned branch */}
+      {prunedBranch && (
+        <div className="fixed bottom-4 right-4 z-40 flex items-center gap-3 px-4 py-3 rounded-xl shadow-xl bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 text-sm">
+          <span className="text-foreground">
+            Pruned {prunedBranch.label}
+            {prunedBranch.imageCount > 1 && ` and ${prunedBranch.imageCount - 1} refinements`}
+          </span>
+          <button onClick={undoPrune} className="font-medium text-blue-600 hover:underline">
+            Undo
+          </button>
+          <button
+            onClick={() => setPrunedBranch(null)}
+            title="Dismiss"
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      )}
+
+      {/* Images picked for comparison */}
+      {compareItems.length > 0 && !isCompareOpen && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 p-2 pr-3 rounded-xl shadow-xl bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700">
+          <div className="flex gap-1">
+            {compareItems.map((item) => (
+              <img
+                key={item.id}
+                src={item.url}
+                alt={item.label}
+                title={item.label}
+                className="w-16 h-9 object-cover rounded"
+              />
             ))}
           </div>
-        )}
-      </div>
+          <button
+            onClick={() => {
+              setCompareFocus(0);
+              setIsCompareOpen(true);
+            }}
+            disabled={compareItems.length < 2}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {compareItems.length < 2 ? "Pick another image" : `Compare ${compareItems.length}`}
+          </button>
+          <button
+            onClick={() => setCompareIds([])}
+            className="text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+
+      {isCompareOpen && compareItems.length >= 2 && (
+        <CompareView
+          items={compareItems}
+          focusIndex={compareFocus}
+          onFocus={setCompareFocus}
+          onRemove={removeFromCompare}
+          onClose={closeCompare}
+        />
+      )}
 
-      {/* Modal for viewing images */}
+      {/* Full-screen viewer */}
       {modalImage && (
-        <div
-          className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
-          onClick={() => setModalImage(null)}
-        >
-          <div className="relative max-w-[90vw] max-h-[90vh]">
-            <img
-              src={modalImage}
-              alt="Generated image"
-              className="max-w-full max-h-[90vh] object-contain rounded-lg"
-              onClick={(e) => e.stopPropagation()}
-            />
-            <button
-              onClick={() => setModalImage(null)}
-              className="absolute top-4 right-4 bg-black/50 hover:bg-black/70 text-white rounded-full w-10 h-10 flex items-center justify-center"
-            >
-              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-              </svg>
-            </button>
-            <button
-              onClick={() => downloadImage(modalImage, "excalidraw-style")}
-              className="absolute bottom-4 right-4 bg-black/50 hover:bg-black/70 text-white rounded-lg px-4 py-2 flex items-center gap-2"
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-              </svg>
-              Download
-            </button>
-          </div>
-        </div>
+        <ImageViewer
+          image={modalImage}
+          label={imageLabel(generatedImages, modalImage.id)}
+          mergedFromLabels={mergeParentLabels(generatedImages, modalImage)}
+          siblingIndex={modalSiblings.indexOf(modalImage)}
+          siblingCount={modalSiblings.length}
+          hasParent={!generatedImages.includes(modalImage)}
+          onNavigate={(direction) => {
+            const target = findViewerTarget(generatedImages, modalImage.id, direction);
+            if (target) setModalImageId(target.id);
+          }}
+          onClose={closeViewer}
+          onDownload={() => downloadImage(modalImage.url, "excalidraw-style")}
+          onExport={() => exportToExcalidraw(modalImage.id, "excalidraw-style")}
+          onToggleFavorite={() => toggleFavorite(modalImage.id)}
+          onRate={(rating) => setRating(modalImage.id, rating)}
+          refinementPrompt={refinementPrompt}
+          onRefinementPromptChange={setRefinementPrompt}
+          onRefine={() => handleRefine(modalImage)}
+          onCancelRefine={cancelRefine}
+          refiningImageId={refiningImageId}
+          refineCount={refineSettings.count}
+          error={error}
+        />
       )}
     </main>
   );
@@ -0,0 +1,198 @@
+"use client";
+
+import { useRef } from "react";
+import { BatchItemStatus, BatchJob } from "@/hooks/useBatchQueue";
+
+interface BatchPanelProps {
+  jobs: BatchJob[];
+  isRunning: boolean;
+  isPaused: boolean;
+  variationsPerItem: number;
+  onLoadFile: (file: File) => void;
+  onStart: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onClear: () => void;
+  onRetry: (id: string) => void;
+  // Load an item's content into the editor and add its images as a new run
+  onOpen: (job: BatchJob) => void;
+  onDownload: (jobs: BatchJob[]) => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400",
+  running: "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300",
+  done: "bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300",
+  failed: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300",
+};
+
+export default function BatchPanel({
+  jobs,
+  isRunning,
+  isPaused,
+  variationsPerItem,
+  onLoadFile,
+  onStart,
+  onPause,
+  onResume,
+  onClear,
+  onRetry,
+  onOpen,
+  onDownload,
+}: BatchPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const finished = jobs.filter((job) => job.status === "done" || job.status === "failed").length;
+  const hasStarted = jobs.some((job) => job.status !== "queued");
+  const hasResults = jobs.some((job) => job.images.length > 0);
+  const progress = jobs.length > 0 ? (finished / jobs.length) * 100 : 0;
+
+  const buttonClassName =
+    "px-3 py-2 rounded-lg text-sm border border-gray-300 dark:border-gray-600 text-foreground hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="space-y-4 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="font-medium text-foreground">Batch Mode</h2>
+          <p className="text-sm text-gray-500">
+            Load a CSV, JSON array or Markdown file to generate {variationsPerItem} images per item
+            with the current references and system prompt. Results are kept only until the page
+            reloads; open an item to add it to the session, or download them.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isRunning}
+            className={buttonClassName}
+          >
+            Load file
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,.md,.markdown"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) onLoadFile(file);
+            }}
+            className="hidden"
+          />
+          {jobs.length > 0 && (
+            <>
+              {!hasStarted && !isRunning && (
+                <button
+                  onClick={onStart}
+                  className="px-3 py-2 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+                >
+                  Start {jobs.length} items
+                </button>
+              )}
+              {isRunning && !isPaused && (
+                <button onClick={onPause} className={buttonClassName}>
+                  Pause
+                </button>
+              )}
+              {hasStarted && (isPaused || !isRunning) && finished < jobs.length && (
+                <button onClick={onResume} className={buttonClassName}>
+                  Resume
+                </button>
+              )}
+              {hasResults && (
+                <button onClick={() => onDownload(jobs)} className={buttonClassName}>
+                  Download all
+                </button>
+              )}
+              <button onClick={onClear} className={buttonClassName}>
+                Clear
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {jobs.length > 0 && (
+        <>
+          <div>
+            <div className="flex justify-between text-xs text-gray-500 mb-1">
+              <span>
+                {finished} of {jobs.length} items
+                {isPaused && (isRunning ? " · pausing after the current item" : " · paused")}
+              </span>
+              <span>{jobs.reduce((total, job) => total + job.images.length, 0)} images</span>
+            </div>
+            <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+              <div className="h-full bg-blue-600 transition-all" style={{ width: `${progress}%` }} />
+            </div>
+          </div>
+
+          <ol className="space-y-3 max-h-[32rem] overflow-y-auto">
+            {jobs.map((job, i) => (
+              <li key={job.id} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-900">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">
+                      {i + 1}. {job.title}
+                    </p>
+                    <p className="text-xs text-gray-500 line-clamp-2">{job.content}</p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[job.status]}`}>
+                      {job.status}
+                    </span>
+                    {job.status === "failed" && (
+                      <button
+                        onClick={() => onRetry(job.id)}
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        Retry
+                      </button>
+                    )}
+                    {job.images.length > 0 && job.status !== "running" && (
+                      <>
+                        <button
+                          onClick={() => onOpen(job)}
+                          className="text-xs text-blue-600 hover:underline"
+                        >
+                          Open
+                        </button>
+                        <button
+                          onClick={() => onDownload([job])}
+                          className="text-xs text-blue-600 hover:underline"
+                        >
+                          Download
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                {job.images.length > 0 && (
+                  <div className="mt-2 flex gap-2 flex-wrap">
+                    {job.images.map((img) => (
+                      <img
+                        key={img.id}
+                        src={img.url}
+                        alt={job.title}
+                        className="h-20 rounded border border-gray-200 dark:border-gray-700"
+                      />
+                    ))}
+                  </div>
+                )}
+                {job.errors.length > 0 && (
+                  <ul className="mt-2 space-y-0.5 text-xs text-red-600 dark:text-red-400">
+                    {job.errors.map((message, j) => (
+                      <li key={j}>{message}</li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
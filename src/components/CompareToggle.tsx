@@ -0,0 +1,35 @@
+"use client";
+
+interface CompareToggleProps {
+  // 1-based position in the comparison, or 0 when not included
+  position: number;
+  disabled: boolean;
+  onToggle: () => void;
+}
+
+// Adds an image to the comparison, or shows its position once it is in it
+export default function CompareToggle({ position, disabled, onToggle }: CompareToggleProps) {
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onToggle();
+      }}
+      disabled={disabled}
+      title={position > 0 ? "Remove from comparison" : "Add to comparison"}
+      className={`absolute bottom-2 left-2 rounded-full w-8 h-8 flex items-center justify-center text-sm font-medium transition-opacity disabled:cursor-not-allowed ${
+        position > 0
+          ? "bg-blue-600 text-white opacity-100"
+          : "bg-black/50 hover:bg-black/70 text-white opacity-0 group-hover:opacity-100"
+      }`}
+    >
+      {position > 0 ? (
+        position
+      ) : (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 4H5a1 1 0 00-1 1v14a1 1 0 001 1h4m6-16h4a1 1 0 011 1v14a1 1 0 01-1 1h-4M12 3v18" />
+        </svg>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useZoomPan } from "@/hooks/useZoomPan";
+
+export const MAX_COMPARE_IMAGES = 4;
+
+export interface CompareItem {
+  id: string;
+  url: string;
+  // Position in the refinement tree, e.g. "Image 2 › 1"
+  label: string;
+  refinement?: string;
+}
+
+type CompareMode = "side-by-side" | "slider";
+
+interface CompareViewProps {
+  items: CompareItem[];
+  // The pane the page's ←/→ handler steps through siblings for
+  focusIndex: number;
+  onFocus: (index: number) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+const GRID_COLUMNS: Record<number, string> = {
+  2: "grid-cols-2",
+  3: "grid-cols-3",
+  4: "grid-cols-2 grid-rows-2",
+};
+
+export default function CompareView({ items, focusIndex, onFocus, onRemove, onClose }: CompareViewProps) {
+  const [mode, setMode] = useState<CompareMode>("side-by-side");
+  const [sliderPosition, setSliderPosition] = useState(50);
+  const { containerRef, view, transform, zoomBy, reset, panHandlers } = useZoomPan();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  // The slider shows the first image as "before" against the focused one
+  const afterIndex = focusIndex === 0 ? 1 : focusIndex;
+  const before = items[0];
+  const after = items[afterIndex];
+
+  const buttonClassName = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-sm transition-colors ${
+      active ? "bg-white text-gray-900" : "bg-white/10 text-white hover:bg-white/20"
+    }`;
+
+  const paneImage = (item: CompareItem, style?: React.CSSProperties) => (
+    <img
+      src={item.url}
+      alt={item.label}
+      draggable={false}
+      className="absolute inset-0 w-full h-full object-contain select-none"
+      style={{ transform, ...style }}
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/90 flex flex-col">
+      <div className="flex items-center justify-between gap-4 p-4 text-white flex-wrap">
+        <div className="flex gap-2 flex-wrap">
+          {items.map((item, i) => (
+            <div
+              key={item.id}
+              onClick={() => onFocus(i)}
+              title={item.refinement}
+              className={`flex items-center gap-2 pl-3 pr-2 py-1 rounded-full text-sm cursor-pointer ${
+                i === focusIndex ? "bg-blue-600" : "bg-white/10 hover:bg-white/20"
+              }`}
+            >
+              {mode === "slider" && i === 0 && <span className="text-xs opacity-70">Before</span>}
+              {mode === "slider" && i === afterIndex && <span className="text-xs opacity-70">After</span>}
+              <span className="max-w-48 truncate">{item.label}</span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRemove(item.id);
+                }}
+                title="Remove from comparison"
+                className="w-5 h-5 rounded-full hover:bg-black/30 flex items-center justify-center"
+              >
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setMode("side-by-side")} className={buttonClassName(mode === "side-by-side")}>
+            Side by side
+          </button>
+          <button onClick={() => setMode("slider")} className={buttonClassName(mode === "slider")}>
+            Before / after
+          </button>
+          <button
+            onClick={onClose}
+            className="ml-2 bg-white/10 hover:bg-white/20 rounded-full w-9 h-9 flex items-center justify-center"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={containerRef}
+        {...panHandlers}
+        className={`flex-1 min-h-0 px-4 touch-none ${view.scale > 1 ? "cursor-grab active:cursor-grabbing" : ""}`}
+      >
+        {mode === "side-by-side" ? (
+          <div className={`grid gap-2 h-full ${GRID_COLUMNS[items.length] ?? "grid-cols-2"}`}>
+            {items.map((item, i) => (
+              <div
+                key={item.id}
+                data-zoom-pane
+                onClick={() => onFocus(i)}
+                className={`relative overflow-hidden rounded-lg bg-black ${
+                  i === focusIndex ? "ring-2 ring-blue-500" : ""
+                }`}
+              >
+                {paneImage(item)}
+                <span className="absolute top-2 left-2 bg-black/60 text-white text-xs px-2 py-1 rounded">
+                  {item.label}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div data-zoom-pane className="relative h-full overflow-hidden rounded-lg bg-black">
+            {paneImage(before)}
+            {paneImage(after, { clipPath: `inset(0 0 0 ${sliderPosition}%)` })}
+            <div
+              className="absolute inset-y-0 w-0.5 bg-white pointer-events-none"
+              style={{ left: `${sliderPosition}%` }}
+            />
+            <span className="absolute top-2 left-2 bg-black/60 text-white text-xs px-2 py-1 rounded">
+              {before.label}
+            </span>
+            <span className="absolute top-2 right-2 bg-black/60 text-white text-xs px-2 py-1 rounded">
+              {after.label}
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-4 p-4 text-white text-sm flex-wrap">
+        <div className="flex items-center gap-2">
+          <button onClick={() => zoomBy(1 / 1.5)} className={buttonClassName(false)}>
+            −
+          </button>
+          <span className="w-12 text-center tabular-nums">{Math.round(view.scale * 100)}%</span>
+          <button onClick={() => zoomBy(1.5)} className={buttonClassName(false)}>
+            +
+          </button>
+          <button onClick={reset} className={buttonClassName(false)}>
+            Fit
+          </button>
+        </div>
+        {mode === "slider" && (
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={sliderPosition}
+            onChange={(e) => setSliderPosition(Number(e.target.value))}
+            aria-label="Before/after position"
+            className="flex-1 min-w-48"
+          />
+        )}
+        <p className="ml-auto text-xs text-gray-400">
+          Scroll to zoom, drag to pan · ←/→ switch the highlighted image to its siblings · Esc to close
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  Concept,
+  DEFAULT_CONCEPT_COUNT,
+  MAX_CONCEPTS,
+  MIN_CONCEPTS,
+  OFFLINE_CONCEPTS_MODEL,
+} from "@/lib/concepts";
+import { requestConcepts } from "@/lib/conceptsClient";
+import { isAbortError } from "@/lib/generateClient";
+
+interface ConceptSplitterProps {
+  article: string;
+  // Undefined when the server supplies the key
+  apiKey?: string;
+  // Returns false (and prompts for a key) when a required key is missing
+  ensureApiKey: () => boolean;
+  // Replace the content field with one concept
+  onUse: (concept: Concept) => void;
+  // Load concepts into the batch queue
+  onQueue: (concepts: Concept[]) => void;
+}
+
+interface ProposedConcept extends Concept {
+  id: string;
+  selected: boolean;
+}
+
+export default function ConceptSplitter({
+  article,
+  apiKey,
+  ensureApiKey,
+  onUse,
+  onQueue,
+}: ConceptSplitterProps) {
+  const [count, setCount] = useState(DEFAULT_CONCEPT_COUNT);
+  const [concepts, setConcepts] = useState<ProposedConcept[]>([]);
+  // The model that proposed the current concepts
+  const [model, setModel] = useState<string | null>(null);
+  const [isSplitting, setIsSplitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const selected = concepts.filter((c) => c.selected);
+
+  const handleSplit = async () => {
+    if (!ensureApiKey()) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsSplitting(true);
+    setError(null);
+
+    try {
+      const proposed = await requestConcepts({ article, count, apiKey }, controller.signal);
+      setConcepts(proposed.concepts.map((c) => ({ ...c, id: crypto.randomUUID(), selected: true })));
+      setModel(proposed.model);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : "Failed to split the article into concepts");
+      }
+    } finally {
+      abortRef.current = null;
+      setIsSplitting(false);
+    }
+  };
+
+  const toggle = (id: string) => {
+    setConcepts((prev) => prev.map((c) => (c.id === id ? { ...c, selected: !c.selected } : c)));
+  };
+
+  const setAllSelected = (value: boolean) => {
+    setConcepts((prev) => prev.map((c) => ({ ...c, selected: value })));
+  };
+
+  return (
+    <div className="mt-2 space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <button
+          onClick={handleSplit}
+          disabled={!article.trim() || isSplitting}
+          className="px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 text-foreground hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSplitting ? "Finding concepts..." : "Split into concepts"}
+        </button>
+        <select
+          value={count}
+          onChange={(e) => setCount(Number(e.target.value))}
+          disabled={isSplitting}
+          className="px-2 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-foreground"
+        >
+          {Array.from({ length: MAX_CONCEPTS - MIN_CONCEPTS + 1 }, (_, i) => i + MIN_CONCEPTS).map((n) => (
+            <option key={n} value={n}>
+              {n} {n === 1 ? "concept" : "concepts"}
+            </option>
+          ))}
+        </select>
+        {isSplitting && (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {concepts.length > 0 && (
+        <div className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>
+              {selected.length} of {concepts.length} concepts selected
+            </span>
+            <div className="flex gap-3">
+              <button onClick={() => setAllSelected(true)} className="hover:text-blue-600">
+                All
+              </button>
+              <button onClick={() => setAllSelected(false)} className="hover:text-blue-600">
+                None
+              </button>
+              <button onClick={() => setConcepts([])} className="hover:text-blue-600">
+                Dismiss
+              </button>
+            </div>
+          </div>
+          {model === OFFLINE_CONCEPTS_MODEL && (
+            <p className="text-xs text-yellow-700 dark:text-yellow-400">
+              Split offline by paragraph: no Gemini key was available, so these are not model suggestions.
+            </p>
+          )}
+          <ul className="space-y-2">
+            {concepts.map((concept) => (
+              <li key={concept.id} className="flex items-start gap-2">
+                <input
+                  type="checkbox"
+                  checked={concept.selected}
+                  onChange={() => toggle(concept.id)}
+                  className="mt-1"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground">{concept.title}</p>
+                  <p className="text-xs text-gray-500">{concept.description}</p>
+                </div>
+                <button
+                  onClick={() => onUse(concept)}
+                  className="text-xs text-blue-600 hover:underline shrink-0"
+                >
+                  Use
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={() => onQueue(selected)}
+            disabled={selected.length === 0}
+            className="w-full py-2 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            Queue {selected.length} concepts in batch mode
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+interface FailedSlotCardProps {
+  index: number;
+  error: string;
+  attempts?: number;
+  isRetrying: boolean;
+  onRetry: () => void;
+  onCancel: () => void;
+}
+
+export default function FailedSlotCard({
+  index,
+  error,
+  attempts,
+  isRetrying,
+  onRetry,
+  onCancel,
+}: FailedSlotCardProps) {
+  return (
+    <div className="aspect-video rounded-lg border-4 border-transparent">
+      <div className="h-full p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded flex flex-col justify-between gap-2">
+        <div className="min-h-0 overflow-y-auto">
+          <p className="text-sm font-medium text-red-700 dark:text-red-400">
+            Variation {index + 1} failed
+            {attempts && attempts > 1 ? ` after ${attempts} attempts` : ""}
+          </p>
+          <p className="text-xs text-red-600 dark:text-red-400 break-words" title={error}>
+            {error}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onRetry}
+            disabled={isRetrying}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium text-white transition-colors ${
+              isRetrying ? "bg-gray-400 cursor-not-allowed" : "bg-red-600 hover:bg-red-700"
+            }`}
+          >
+            {isRetrying ? (
+              <span className="flex items-center gap-2">
+                <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                </svg>
+                Retrying...
+              </span>
+            ) : (
+              "Retry this one"
+            )}
+          </button>
+          {isRetrying && (
+            <button onClick={onCancel} className="text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import { STAR_PATH } from "@/components/RatingStars";
+
+interface FavoriteToggleProps {
+  favorite: boolean;
+  onToggle: () => void;
+}
+
+// Star on a thumbnail; shown only on hover until the image is a favorite
+export default function FavoriteToggle({ favorite, onToggle }: FavoriteToggleProps) {
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onToggle();
+      }}
+      title={favorite ? "Remove from favorites" : "Mark as favorite"}
+      className={`absolute top-2 right-22 bg-black/50 hover:bg-black/70 rounded-full w-8 h-8 flex items-center justify-center transition-opacity ${
+        favorite ? "text-yellow-400 opacity-100" : "text-white opacity-0 group-hover:opacity-100"
+      }`}
+    >
+      <svg className="w-4 h-4" fill={favorite ? "currentColor" : "none"} stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={STAR_PATH} />
+      </svg>
+    </button>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { mergeLetter } from "@/lib/promptTemplates";
+import { ImageProvenance } from "@/lib/types";
+
+interface ImageDetailsProps {
+  provenance?: ImageProvenance;
+  // Current tree labels of provenance.mergedFrom, in the same order
+  mergedFromLabels?: string[];
+}
+
+export default function ImageDetails({ provenance, mergedFromLabels = [] }: ImageDetailsProps) {
+  if (!provenance) {
+    return <p className="text-sm text-gray-500">No generation details were recorded for this image.</p>;
+  }
+
+  const rows: [string, string][] = [
+    ["Model", provenance.model || "Unknown"],
+    [
+      "Template",
+      provenance.template
+        ? `${provenance.template.name} v${provenance.template.version}`
+        : "Custom prompt",
+    ],
+    ["Variation", `${provenance.variationIndex + 1}`],
+    ...(provenance.mergedFrom
+      ? [
+          [
+            "Merged from",
+            mergedFromLabels.map((label, i) => `${mergeLetter(i)}: ${label}`).join(", "),
+          ] as [string, string],
+        ]
+      : []),
+    ["Aspect ratio", provenance.aspectRatio],
+    ["Size", provenance.imageSize],
+    ["Attempts", `${provenance.attempts ?? 1}`],
+    ["Created", new Date(provenance.createdAt).toLocaleString()],
+  ];
+
+  return (
+    <div className="space-y-3 text-sm">
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+        {rows.map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="text-gray-500">{label}</dt>
+            <dd className="text-foreground">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {provenance.promptVariables && Object.keys(provenance.promptVariables).length > 0 && (
+        <div>
+          <p className="text-gray-500 mb-1">Variables</p>
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+            {Object.entries(provenance.promptVariables).map(([name, value]) => (
+              <div key={name} className="contents">
+                <dt className="text-gray-500">{name}</dt>
+                <dd className="text-foreground">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+
+      {provenance.refinement && (
+        <div>
+          <p className="text-gray-500 mb-1">
+            Refinement{provenance.regionMaskHash && " (painted region only)"}
+          </p>
+          <p className="text-foreground whitespace-pre-wrap">{provenance.refinement}</p>
+        </div>
+      )}
+
+      <div>
+        <p className="text-gray-500 mb-1">References ({provenance.referenceNames.length})</p>
+        <ul className="space-y-0.5">
+          {provenance.referenceNames.map((name, i) => (
+            <li key={i} className="text-foreground">
+              {name}{" "}
+              <span className="font-mono text-xs text-gray-400">
+                {provenance.referenceHashes[i]?.slice(0, 12)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {provenance.responseText && (
+        <div>
+          <p className="text-gray-500 mb-1">Model response</p>
+          <p className="text-foreground whitespace-pre-wrap">{provenance.responseText}</p>
+        </div>
+      )}
+
+      <div>
+        <p className="text-gray-500 mb-1">Prompt</p>
+        <pre className="max-h-48 overflow-y-auto whitespace-pre-wrap font-sans text-xs text-foreground bg-gray-50 dark:bg-gray-800 rounded p-2">
+          {provenance.prompt}
+        </pre>
+      </div>
+    </div>
+  );
+}
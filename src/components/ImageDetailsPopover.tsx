@@ -0,0 +1,76 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import ImageDetails from "@/components/ImageDetails";
+import { ImageProvenance } from "@/lib/types";
+
+interface ImageDetailsPopoverProps {
+  provenance?: ImageProvenance;
+  mergedFromLabels?: string[];
+  className?: string;
+}
+
+export default function ImageDetailsPopover({
+  provenance,
+  mergedFromLabels,
+  className = "",
+}: ImageDetailsPopoverProps) {
+  // Viewport position of the popover; thumbnails clip overflow, so it is
+  // rendered with fixed positioning anchored to the button
+  const [position, setPosition] = useState<{ bottom: number; right: number } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isOpen = position !== null;
+
+  // Close when clicking outside the popover or scrolling away from it
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setPosition(null);
+      }
+    };
+    const handleScroll = () => setPosition(null);
+    document.addEventListener("mousedown", handleClick);
+    window.addEventListener("scroll", handleScroll);
+    return () => {
+      document.removeEventListener("mousedown", handleClick);
+      window.removeEventListener("scroll", handleScroll);
+    };
+  }, [isOpen]);
+
+  const toggle = (e: React.MouseEvent<HTMLButtonElement>) => {
+    if (isOpen) {
+      setPosition(null);
+      return;
+    }
+    const rect = e.currentTarget.getBoundingClientRect();
+    setPosition({
+      bottom: window.innerHeight - rect.top + 8,
+      right: Math.max(window.innerWidth - rect.right, 8),
+    });
+  };
+
+  return (
+    <div ref={containerRef} className={className} onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={toggle}
+        title="Generation details"
+        className={`bg-black/50 hover:bg-black/70 text-white rounded-full w-8 h-8 flex items-center justify-center transition-opacity ${
+          isOpen ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+        }`}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      </button>
+      {position && (
+        <div
+          style={position}
+          className="fixed z-30 w-80 max-h-[70vh] overflow-y-auto p-4 rounded-lg shadow-xl bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 cursor-default"
+        >
+          <ImageDetails provenance={provenance} mergedFromLabels={mergedFromLabels} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,50 +1,54 @@
 "use client";
 
-import { useCallback, useState } from "react";
-
-interface UploadedImage {
-  id: string;
-  file: File;
-  preview: string;
-  base64: string;
-  mimeType: string;
-}
+import { Dispatch, SetStateAction, useCallback, useRef, useState } from "react";
+import { base64ByteLength, formatBytes } from "@/lib/generateSchema";
+import {
+  REFERENCE_FORMATS,
+  REFERENCE_FORMAT_LABELS,
+  REFERENCE_MAX_EDGES,
+  ReferenceEncoding,
+  ReferenceFormat,
+  encodeReferenceImage,
+} from "@/lib/imageEncoding";
+import { UploadedImage } from "@/lib/types";
 
 interface ImageUploaderProps {
   images: UploadedImage[];
-  onImagesChange: (images: UploadedImage[]) => void;
+  onImagesChange: Dispatch<SetStateAction<UploadedImage[]>>;
+  encoding: ReferenceEncoding;
+  onEncodingChange: (encoding: ReferenceEncoding) => void;
   maxImages?: number;
 }
 
+async function processFile(
+  file: File,
+  encoding: ReferenceEncoding
+): Promise<UploadedImage | null> {
+  if (!file.type.startsWith("image/")) {
+    return null;
+  }
+
+  try {
+    return await encodeReferenceImage(file, encoding);
+  } catch (error) {
+    console.error(`Failed to encode ${file.name}:`, error);
+    return null;
+  }
+}
+
 export default function ImageUploader({
   images,
   onImagesChange,
+  encoding,
+  onEncodingChange,
   maxImages = 3,
 }: ImageUploaderProps) {
   const [isDragging, setIsDragging] = useState(false);
-
-  const processFile = async (file: File): Promise<UploadedImage | null> => {
-    if (!file.type.startsWith("image/")) {
-      return null;
-    }
-
-    return new Promise((resolve) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const result = e.target?.result as string;
-        const base64 = result.split(",")[1];
-        resolve({
-          id: crypto.randomUUID(),
-          file,
-          preview: result,
-          base64,
-          mimeType: file.type,
-        });
-      };
-      reader.onerror = () => resolve(null);
-      reader.readAsDataURL(file);
-    });
-  };
+  const [isEncoding, setIsEncoding] = useState(false);
+  // Names of the last dropped files that could not be read
+  const [rejectedNames, setRejectedNames] = useState<string[]>([]);
+  // Only the latest re-encode may replace the images
+  const encodeRunRef = useRef(0);
 
   const handleFiles = useCallback(
     async (files: FileList | File[]) => {
@@ -52,18 +56,42 @@ export default function ImageUploader({
       const remainingSlots = maxImages - images.length;
       const filesToProcess = fileArray.slice(0, remainingSlots);
 
-      const processed = await Promise.all(filesToProcess.map(processFile));
+      const processed = await Promise.all(filesToProcess.map((file) => processFile(file, encoding)));
       const validImages = processed.filter(
         (img): img is UploadedImage => img !== null
       );
+      setRejectedNames(filesToProcess.filter((_, i) => processed[i] === null).map((file) => file.name));
 
       if (validImages.length > 0) {
-        onImagesChange([...images, ...validImages]);
+        onImagesChange((prev) => [...prev, ...validImages].slice(0, maxImages));
       }
     },
-    [images, maxImages, onImagesChange]
+    [images.length, maxImages, onImagesChange, encoding]
   );
 
+  // Re-encode every reference from its original file with the new settings.
+  // Images added or removed meanwhile are left as they are.
+  const handleEncodingChange = async (next: ReferenceEncoding) => {
+    onEncodingChange(next);
+    const run = ++encodeRunRef.current;
+    setIsEncoding(true);
+    try {
+      const reencoded = await Promise.all(
+        images
+          .filter((img) => !img.isEncodedCopy)
+          .map((img) => encodeReferenceImage(img.file, next, img.id))
+      );
+      if (run === encodeRunRef.current) {
+        const byId = new Map(reencoded.map((img) => [img.id, img]));
+        onImagesChange((prev) => prev.map((img) => byId.get(img.id) ?? img));
+      }
+    } catch (error) {
+      console.error("Failed to re-encode reference images:", error);
+    } finally {
+      if (run === encodeRunRef.current) setIsEncoding(false);
+    }
+  };
+
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
@@ -94,16 +122,70 @@ export default function ImageUploader({
 
   const removeImage = useCallback(
     (id: string) => {
-      onImagesChange(images.filter((img) => img.id !== id));
+      onImagesChange((prev) => prev.filter((img) => img.id !== id));
     },
-    [images, onImagesChange]
+    [onImagesChange]
   );
 
   return (
     <div className="w-full">
-      <label className="block text-sm font-medium mb-2 text-foreground">
-        Reference Images ({images.length})
-      </label>
+      <div className="flex items-center justify-between mb-2 gap-4 flex-wrap">
+        <label className="block text-sm font-medium text-foreground">
+          Reference Images ({images.length})
+        </label>
+        <div className="flex items-center gap-3 text-xs text-gray-500">
+          <label className="flex items-center gap-1">
+            Max edge
+            <select
+              value={encoding.maxEdge}
+              onChange={(e) => handleEncodingChange({ ...encoding, maxEdge: Number(e.target.value) })}
+              className="px-1 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-foreground"
+            >
+              {REFERENCE_MAX_EDGES.map((edge) => (
+                <option key={edge} value={edge}>
+                  {edge}px
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            Format
+            <select
+              value={encoding.format}
+              onChange={(e) =>
+                handleEncodingChange({ ...encoding, format: e.target.value as ReferenceFormat })
+              }
+              className="px-1 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-foreground"
+            >
+              {REFERENCE_FORMATS.map((format) => (
+                <option key={format} value={format}>
+                  {REFERENCE_FORMAT_LABELS[format]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            Quality
+            <input
+              type="range"
+              min={0.5}
+              max={1}
+              step={0.05}
+              value={encoding.quality}
+              onChange={(e) => handleEncodingChange({ ...encoding, quality: Number(e.target.value) })}
+              className="w-20"
+            />
+            <span className="w-8 tabular-nums">{Math.round(encoding.quality * 100)}%</span>
+          </label>
+          {isEncoding && <span>Re-encoding...</span>}
+        </div>
+      </div>
+
+      {rejectedNames.length > 0 && (
+        <p className="mb-2 text-sm text-red-600 dark:text-red-400">
+          Could not read {rejectedNames.join(", ")}. Use PNG, JPEG, WebP or HEIC images.
+        </p>
+      )}
 
       {images.length < maxImages && (
         <div
@@ -163,6 +245,16 @@ export default function ImageUploader({
                 alt="Reference"
                 className="w-36 h-36 object-cover rounded-lg"
               />
+              <span
+                className="absolute bottom-1 left-1 bg-black/60 text-white text-xs px-1.5 py-0.5 rounded"
+                title={
+                  img.isEncodedCopy
+                    ? "Original upload not kept; changing the encoding leaves this image as it is"
+                    : `Original ${formatBytes(img.file.size)}`
+                }
+              >
+                {formatBytes(base64ByteLength(img.base64))}
+              </span>
               <button
                 onClick={() => removeImage(img.id)}
                 className="absolute -top-1 -right-1 bg-red-500 text-white rounded-full w-4 h-4 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
@@ -0,0 +1,297 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import ImageDetails from "@/components/ImageDetails";
+import RatingStars, { STAR_PATH } from "@/components/RatingStars";
+import { MAX_ZOOM, useZoomPan } from "@/hooks/useZoomPan";
+import { findAdjacentSibling, findImagePath } from "@/lib/imageTree";
+import { GeneratedImage } from "@/lib/types";
+
+export type ViewerDirection = "previous" | "next" | "parent" | "child";
+
+// The image the full-screen viewer moves to: a sibling, the parent or the
+// first refinement
+export function findViewerTarget(
+  images: GeneratedImage[],
+  id: string,
+  direction: ViewerDirection
+): GeneratedImage | null {
+  if (direction === "previous" || direction === "next") {
+    return findAdjacentSibling(images, id, direction === "previous" ? -1 : 1);
+  }
+  const path = findImagePath(images, id);
+  if (!path) return null;
+  return direction === "parent"
+    ? path[path.length - 2] ?? null
+    : path[path.length - 1].refinements[0] ?? null;
+}
+
+// Arrow keys move through the tree while the viewer is open
+export const VIEWER_KEYS: Record<string, ViewerDirection> = {
+  ArrowLeft: "previous",
+  ArrowRight: "next",
+  ArrowUp: "parent",
+  ArrowDown: "child",
+};
+
+interface ImageViewerProps {
+  image: GeneratedImage;
+  // Position in the refinement tree, e.g. "Image 2 › 1"
+  label: string;
+  // Current labels of the parents it was merged from, if it is a merge
+  mergedFromLabels?: string[];
+  siblingIndex: number;
+  siblingCount: number;
+  hasParent: boolean;
+  onNavigate: (direction: ViewerDirection) => void;
+  onClose: () => void;
+  onDownload: () => void;
+  onExport: () => void;
+  onToggleFavorite: () => void;
+  onRate: (rating: number | undefined) => void;
+  refinementPrompt: string;
+  onRefinementPromptChange: (value: string) => void;
+  onRefine: () => void;
+  onCancelRefine: () => void;
+  // The image being refined, if any (only one refine runs at a time)
+  refiningImageId: string | null;
+  refineCount: number;
+  error: string | null;
+}
+
+const ZOOM_STEP = 1.5;
+
+// Zoomable image; keyed by image so zoom resets when navigating
+function ViewerStage({ url, alt }: { url: string; alt: string }) {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const { containerRef, view, transform, zoomBy, zoomTo, reset, panHandlers } = useZoomPan();
+
+  // The scale last used for 1:1, to show the toggle's state
+  const [actualSizeScale, setActualSizeScale] = useState<number | null>(null);
+  const isActualSize = actualSizeScale !== null && view.scale > 1 && view.scale === actualSizeScale;
+
+  // The image is never upscaled to fit, so 1:1 is the ratio of its natural
+  // width to its rendered (untransformed) width
+  const toggleActualSize = () => {
+    const img = imageRef.current;
+    if (isActualSize || !img || img.offsetWidth === 0) {
+      reset();
+      return;
+    }
+    const scale = Math.min(MAX_ZOOM, img.naturalWidth / img.offsetWidth);
+    setActualSizeScale(scale);
+    zoomTo(scale);
+  };
+
+  const buttonClassName =
+    "bg-black/50 hover:bg-black/70 text-white rounded-lg px-3 py-2 text-sm disabled:opacity-50";
+
+  return (
+    <div
+      ref={containerRef}
+      {...panHandlers}
+      onClick={(e) => e.stopPropagation()}
+      className={`relative flex-1 min-h-0 overflow-hidden flex items-center justify-center touch-none ${
+        view.scale > 1 ? "cursor-grab active:cursor-grabbing" : ""
+      }`}
+    >
+      <img
+        ref={imageRef}
+        src={url}
+        alt={alt}
+        draggable={false}
+        className="max-w-full max-h-full object-contain rounded-lg select-none"
+        style={{ transform }}
+      />
+      <div className="absolute bottom-4 left-4 flex items-center gap-2">
+        <button onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={view.scale <= 1} className={buttonClassName}>
+          −
+        </button>
+        <span className="w-14 text-center text-sm text-white tabular-nums">
+          {Math.round(view.scale * 100)}%
+        </span>
+        <button onClick={() => zoomBy(ZOOM_STEP)} className={buttonClassName}>
+          +
+        </button>
+        <button
+          onClick={toggleActualSize}
+          title="Toggle between fit to screen and one image pixel per screen pixel"
+          className={buttonClassName}
+        >
+          {isActualSize ? "Fit" : "1:1"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function ImageViewer({
+  image,
+  label,
+  mergedFromLabels,
+  siblingIndex,
+  siblingCount,
+  hasParent,
+  onNavigate,
+  onClose,
+  onDownload,
+  onExport,
+  onToggleFavorite,
+  onRate,
+  refinementPrompt,
+  onRefinementPromptChange,
+  onRefine,
+  onCancelRefine,
+  refiningImageId,
+  refineCount,
+  error,
+}: ImageViewerProps) {
+  const [showDetails, setShowDetails] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const isRefiningThis = refiningImageId === image.id;
+  const navButtonClassName =
+    "bg-black/50 hover:bg-black/70 text-white rounded-full w-10 h-10 flex items-center justify-center disabled:opacity-30 disabled:cursor-not-allowed";
+  const actionClassName = "bg-black/50 hover:bg-black/70 text-white rounded-lg px-4 py-2 flex items-center gap-2";
+
+  return (
+    <div className="fixed inset-0 bg-black/90 flex flex-col z-50 p-4 gap-3" onClick={onClose}>
+      <div className="flex items-center justify-between gap-4 text-white" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-2">
+          <button onClick={() => onNavigate("parent")} disabled={!hasParent} title="Parent (↑)" className={navButtonClassName}>
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+            </svg>
+          </button>
+          <button
+            onClick={() => onNavigate("child")}
+            disabled={image.refinements.length === 0}
+            title="First refinement (↓)"
+            className={navButtonClassName}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+          <div className="ml-2">
+            <p className="text-sm font-medium">{label}</p>
+            <p className="text-xs text-gray-400">
+              {siblingIndex + 1} of {siblingCount}
+              {image.refinements.length > 0 && ` · ${image.refinements.length} refinements`}
+            </p>
+          </div>
+        </div>
+        <button onClick={onClose} className="bg-white/10 hover:bg-white/20 rounded-full w-10 h-10 flex items-center justify-center">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="relative flex-1 min-h-0 flex items-center gap-3">
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onNavigate("previous");
+          }}
+          disabled={siblingCount < 2}
+          title="Previous (←)"
+          className={navButtonClassName}
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <ViewerStage key={image.id} url={image.url} alt={label} />
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onNavigate("next");
+          }}
+          disabled={siblingCount < 2}
+          title="Next (→)"
+          className={navButtonClassName}
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+        {showDetails && (
+          <div
+            className="absolute top-4 left-16 w-80 max-h-[calc(100%-6rem)] overflow-y-auto p-4 rounded-lg shadow-xl bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <ImageDetails provenance={image.provenance} mergedFromLabels={mergedFromLabels} />
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap" onClick={(e) => e.stopPropagation()}>
+        <input
+          value={refinementPrompt}
+          onChange={(e) => onRefinementPromptChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && refinementPrompt.trim() && !refiningImageId) onRefine();
+          }}
+          placeholder="Refine this image..."
+          className="flex-1 min-w-64 px-4 py-2 rounded-lg bg-white/10 text-white placeholder-gray-400 border border-white/20 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        {isRefiningThis ? (
+          <button onClick={onCancelRefine} className={actionClassName}>
+            Cancel refine
+          </button>
+        ) : (
+          <button
+            onClick={onRefine}
+            disabled={!refinementPrompt.trim() || refiningImageId !== null}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg px-4 py-2"
+          >
+            Refine → {refineCount} {refineCount === 1 ? "variation" : "variations"}
+          </button>
+        )}
+        <button
+          onClick={onToggleFavorite}
+          title={image.favorite ? "Remove from favorites" : "Mark as favorite"}
+          className={actionClassName}
+        >
+          <svg
+            className={`w-5 h-5 ${image.favorite ? "text-yellow-400" : ""}`}
+            fill={image.favorite ? "currentColor" : "none"}
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={STAR_PATH} />
+          </svg>
+          {image.favorite ? "Favorite" : "Mark favorite"}
+        </button>
+        <RatingStars rating={image.rating} onChange={onRate} className="px-2" />
+        <button onClick={() => setShowDetails(!showDetails)} className={actionClassName}>
+          {showDetails ? "Hide details" : "Details"}
+        </button>
+        <button onClick={onExport} className={actionClassName}>
+          Export to Excalidraw
+        </button>
+        <button onClick={onDownload} className={actionClassName}>
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+          </svg>
+          Download
+        </button>
+      </div>
+      {isRefiningThis && (
+        <p className="text-sm text-gray-300">
+          Generating {refineCount} {refineCount === 1 ? "variation" : "variations"} — press ↓ to open
+          them once they arrive
+        </p>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
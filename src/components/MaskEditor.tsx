@@ -0,0 +1,200 @@
+"use client";
+
+import { useRef, useState } from "react";
+
+type MaskTool = "brush" | "box";
+
+interface MaskEditorProps {
+  imageUrl: string;
+  // Base64 PNG at the image's size, white where it may change, or null when
+  // nothing is painted
+  onChange: (mask: string | null) => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const PAINT_COLOR = "rgb(239, 68, 68)";
+
+// White where the overlay is painted, black everywhere else
+function exportMask(overlay: HTMLCanvasElement): string {
+  const canvas = document.createElement("canvas");
+  canvas.width = overlay.width;
+  canvas.height = overlay.height;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(overlay, 0, 0);
+  ctx.globalCompositeOperation = "source-in";
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = "destination-over";
+  ctx.fillStyle = "#000000";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/png").split(",")[1];
+}
+
+export default function MaskEditor({ imageUrl, onChange }: MaskEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [tool, setTool] = useState<MaskTool>("brush");
+  // Brush diameter as a percentage of the image width
+  const [brushSize, setBrushSize] = useState(4);
+  const [hasMask, setHasMask] = useState(false);
+  const lastPointRef = useRef<Point | null>(null);
+  // The box being dragged out, as fractions of the image size
+  const [box, setBox] = useState<{ start: Point; end: Point } | null>(null);
+
+  // The overlay uses the image's own pixels so the mask lines up exactly
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+  };
+
+  const toFraction = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const { x, y } = toFraction(e);
+    return { x: x * e.currentTarget.width, y: y * e.currentTarget.height };
+  };
+
+  const paintLine = (from: Point, to: Point) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    ctx.strokeStyle = PAINT_COLOR;
+    ctx.lineWidth = (brushSize / 100) * canvas.width;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const commit = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    setHasMask(true);
+    onChange(exportMask(canvas));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerType === "mouse" && e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (tool === "brush") {
+      const point = toCanvasPoint(e);
+      lastPointRef.current = point;
+      paintLine(point, point);
+    } else {
+      const point = toFraction(e);
+      setBox({ start: point, end: point });
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (tool === "brush" && lastPointRef.current) {
+      const point = toCanvasPoint(e);
+      paintLine(lastPointRef.current, point);
+      lastPointRef.current = point;
+    } else if (tool === "box" && box) {
+      setBox({ ...box, end: toFraction(e) });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (tool === "brush" && lastPointRef.current) {
+      lastPointRef.current = null;
+      commit();
+    } else if (tool === "box" && box) {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext("2d");
+      const width = Math.abs(box.end.x - box.start.x);
+      const height = Math.abs(box.end.y - box.start.y);
+      setBox(null);
+      // Ignore clicks that didn't drag out a box
+      if (!canvas || !ctx || width < 0.005 || height < 0.005) return;
+      ctx.fillStyle = PAINT_COLOR;
+      ctx.fillRect(
+        Math.min(box.start.x, box.end.x) * canvas.width,
+        Math.min(box.start.y, box.end.y) * canvas.height,
+        width * canvas.width,
+        height * canvas.height
+      );
+      commit();
+    }
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+    onChange(null);
+  };
+
+  const boxStyle = box && {
+    left: `${Math.min(box.start.x, box.end.x) * 100}%`,
+    top: `${Math.min(box.start.y, box.end.y) * 100}%`,
+    width: `${Math.abs(box.end.x - box.start.x) * 100}%`,
+    height: `${Math.abs(box.end.y - box.start.y) * 100}%`,
+  };
+
+  const toolClassName = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-xs border transition-colors ${
+      active
+        ? "border-blue-500 bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300"
+        : "border-gray-300 dark:border-gray-600 text-foreground hover:bg-gray-100 dark:hover:bg-gray-800"
+    }`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <button onClick={() => setTool("brush")} className={toolClassName(tool === "brush")}>
+          Brush
+        </button>
+        <button onClick={() => setTool("box")} className={toolClassName(tool === "box")}>
+          Box
+        </button>
+        {tool === "brush" && (
+          <label className="flex items-center gap-2 text-xs text-gray-500">
+            Size
+            <input
+              type="range"
+              min={1}
+              max={15}
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+            />
+          </label>
+        )}
+        <button onClick={clear} disabled={!hasMask} className={`${toolClassName(false)} disabled:opacity-50`}>
+          Clear
+        </button>
+        <span className="text-xs text-gray-500">
+          {hasMask ? "Only the red area will change" : "Paint or draw a box over the area to change"}
+        </span>
+      </div>
+      <div className="relative">
+        <img src={imageUrl} alt="Image to edit" onLoad={handleImageLoad} className="w-full rounded-lg" />
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none rounded-lg"
+        />
+        {boxStyle && (
+          <div
+            className="absolute border-2 border-red-500 bg-red-500/30 pointer-events-none"
+            style={boxStyle}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import { mergeLetter } from "@/lib/promptTemplates";
+
+// Shift-, Ctrl- or Cmd-click picks an image for merging instead of selecting it
+export function isMergeClick(e: React.MouseEvent): boolean {
+  return e.shiftKey || e.metaKey || e.ctrlKey;
+}
+
+interface MergeBadgeProps {
+  // Position in the merge, or -1 when the image isn't picked
+  index: number;
+}
+
+// The image's letter in the merge, or nothing when it isn't picked
+export default function MergeBadge({ index }: MergeBadgeProps) {
+  if (index === -1) return null;
+  return (
+    <div
+      title="Picked for merging"
+      className="absolute top-2 left-12 bg-purple-600 text-white rounded-full w-8 h-8 flex items-center justify-center text-sm font-bold"
+    >
+      {mergeLetter(index)}
+    </div>
+  );
+}
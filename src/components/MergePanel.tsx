@@ -0,0 +1,139 @@
+"use client";
+
+import { MAX_IMAGE_COUNT, MAX_MERGE_PARENTS } from "@/lib/generateSchema";
+import { mergeLetter } from "@/lib/promptTemplates";
+
+export interface MergeParent {
+  id: string;
+  url: string;
+  // Position in the refinement tree, e.g. "Image 2 › 1"
+  label: string;
+}
+
+interface MergePanelProps {
+  // In letter order: the first is A
+  parents: MergeParent[];
+  instruction: string;
+  onInstructionChange: (value: string) => void;
+  count: number;
+  onCountChange: (count: number) => void;
+  // Send the uploaded style references along with the picked images
+  useStyleReferences: boolean;
+  onUseStyleReferencesChange: (value: boolean) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onMerge: () => void;
+  onCancel: () => void;
+  isMerging: boolean;
+  // Another refine is running (only one runs at a time)
+  isBusy: boolean;
+}
+
+// Instruction box for combining two or three picked images into new children
+export default function MergePanel({
+  parents,
+  instruction,
+  onInstructionChange,
+  count,
+  onCountChange,
+  useStyleReferences,
+  onUseStyleReferencesChange,
+  onRemove,
+  onClear,
+  onMerge,
+  onCancel,
+  isMerging,
+  isBusy,
+}: MergePanelProps) {
+  const canMerge = parents.length >= 2 && instruction.trim() !== "" && !isBusy;
+  const letters = parents.map((_, i) => mergeLetter(i));
+
+  return (
+    <div className="p-4 bg-purple-50 dark:bg-purple-950 rounded-lg border border-purple-200 dark:border-purple-800 space-y-3">
+      <div className="flex items-center gap-3 flex-wrap">
+        {parents.map((parent, i) => (
+          <div key={parent.id} className="relative">
+            <img src={parent.url} alt={parent.label} title={parent.label} className="w-24 h-14 object-cover rounded" />
+            <span className="absolute top-1 left-1 bg-purple-600 text-white text-xs font-bold rounded-full w-5 h-5 flex items-center justify-center">
+              {letters[i]}
+            </span>
+            {!isMerging && (
+              <button
+                onClick={() => onRemove(parent.id)}
+                title="Remove from merge"
+                className="absolute top-1 right-1 bg-black/60 hover:bg-black/80 text-white rounded-full w-5 h-5 flex items-center justify-center"
+              >
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            )}
+          </div>
+        ))}
+        <div className="flex-1 min-w-48">
+          <p className="text-sm font-medium text-foreground">
+            Merge {parents.length >= 2 ? letters.join(" + ") : "images"}
+          </p>
+          <p className="text-xs text-gray-500">
+            {parents.length < 2
+              ? `Shift-click another image to pick up to ${MAX_MERGE_PARENTS}`
+              : "The results are added as refinements of every picked image"}
+          </p>
+        </div>
+        {!isMerging && (
+          <button onClick={onClear} className="text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+            Clear
+          </button>
+        )}
+      </div>
+      <textarea
+        value={instruction}
+        onChange={(e) => onInstructionChange(e.target.value)}
+        rows={2}
+        className="w-full px-4 py-3 rounded-lg border border-purple-300 dark:border-purple-700 bg-white dark:bg-gray-800 text-foreground focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none"
+        placeholder="What to take from each image? e.g., 'Layout from A, icons from B'"
+      />
+      <div className="flex items-center gap-4 flex-wrap">
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          Variations
+          <select
+            value={count}
+            onChange={(e) => onCountChange(Number(e.target.value))}
+            disabled={isBusy}
+            className="px-2 py-1 rounded-lg border border-purple-300 dark:border-purple-700 bg-white dark:bg-gray-800 text-foreground"
+          >
+            {Array.from({ length: MAX_IMAGE_COUNT }, (_, i) => i + 1).map((n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          <input
+            type="checkbox"
+            checked={useStyleReferences}
+            onChange={(e) => onUseStyleReferencesChange(e.target.checked)}
+            disabled={isBusy}
+          />
+          Send style references
+        </label>
+        <button
+          onClick={onMerge}
+          disabled={!canMerge}
+          className="flex-1 py-2 px-4 rounded-lg font-medium text-white transition-colors bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {isMerging ? "Merging..." : `Merge → Generate ${count} ${count === 1 ? "Variation" : "Variations"}`}
+        </button>
+        {isMerging && (
+          <button
+            onClick={onCancel}
+            className="py-2 px-6 rounded-lg font-medium border border-gray-300 dark:border-gray-600 text-foreground hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { PromptTemplate, extractVariables } from "@/lib/promptTemplates";
+
+interface PromptTemplatePanelProps {
+  templates: PromptTemplate[];
+  activeTemplate: PromptTemplate | null;
+  onSelectTemplate: (template: PromptTemplate) => void;
+  onSaveVersion: () => void;
+  onSaveAsNew: () => void;
+  onDeleteTemplate: () => void;
+  systemPrompt: string;
+  onSystemPromptChange: (value: string) => void;
+  variableValues: Record<string, string>;
+  onVariableValuesChange: (values: Record<string, string>) => void;
+  // The exact prompt that will be sent, with variables filled in
+  previewPrompt: string;
+}
+
+export default function PromptTemplatePanel({
+  templates,
+  activeTemplate,
+  onSelectTemplate,
+  onSaveVersion,
+  onSaveAsNew,
+  onDeleteTemplate,
+  systemPrompt,
+  onSystemPromptChange,
+  variableValues,
+  onVariableValuesChange,
+  previewPrompt,
+}: PromptTemplatePanelProps) {
+  const variables = extractVariables(systemPrompt);
+  const isModified = activeTemplate !== null && activeTemplate.body !== systemPrompt;
+
+  const buttonClassName =
+    "px-3 py-1.5 rounded-lg text-xs border border-gray-300 dark:border-gray-600 text-foreground hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2 gap-4 flex-wrap">
+        <label className="block text-sm font-medium text-foreground">
+          System Prompt
+          {activeTemplate && (
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              v{activeTemplate.version}
+              {isModified && " · unsaved changes"}
+            </span>
+          )}
+        </label>
+        <div className="flex items-center gap-2">
+          <select
+            value={activeTemplate?.id ?? ""}
+            onChange={(e) => {
+              const template = templates.find((t) => t.id === e.target.value);
+              if (template) onSelectTemplate(template);
+            }}
+            className="px-2 py-1.5 rounded-lg text-xs border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-foreground"
+          >
+            {!activeTemplate && <option value="">Custom prompt</option>}
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+          {isModified && !activeTemplate.builtIn && (
+            <button onClick={onSaveVersion} className={buttonClassName}>
+              Save v{activeTemplate.version + 1}
+            </button>
+          )}
+          <button onClick={onSaveAsNew} className={buttonClassName}>
+            Save as template
+          </button>
+          {activeTemplate && !activeTemplate.builtIn && (
+            <button onClick={onDeleteTemplate} className={buttonClassName}>
+              Delete
+            </button>
+          )}
+        </div>
+      </div>
+      <textarea
+        value={systemPrompt}
+        onChange={(e) => onSystemPromptChange(e.target.value)}
+        rows={3}
+        className="w-full px-4 py-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-900 text-foreground text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+      />
+      <p className="mt-1 text-xs text-gray-500">
+        Add variables with {"{{name}}"} or {"{{name|default}}"}.
+      </p>
+
+      {variables.length > 0 && (
+        <div className="mt-3 grid grid-cols-2 gap-3">
+          {variables.map(({ name, defaultValue }) => (
+            <label key={name} className="block text-xs text-gray-500">
+              <span className="capitalize">{name}</span>
+              <input
+                value={variableValues[name] ?? ""}
+                onChange={(e) => onVariableValuesChange({ ...variableValues, [name]: e.target.value })}
+                placeholder={defaultValue || "Optional, left out when empty"}
+                className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-foreground text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <details className="mt-3">
+        <summary className="text-xs text-gray-500 cursor-pointer">
+          Preview prompt ({previewPrompt.length.toLocaleString()} characters)
+        </summary>
+        <pre className="mt-2 max-h-64 overflow-y-auto whitespace-pre-wrap font-sans text-xs text-foreground bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
+          {previewPrompt}
+        </pre>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+const MAX_RATING = 5;
+
+export const STAR_PATH =
+  "M11.48 3.5a.56.56 0 011.04 0l2.13 5.11a.56.56 0 00.47.35l5.52.44c.5.04.7.66.32.99l-4.2 3.6a.56.56 0 00-.18.56l1.28 5.38a.56.56 0 01-.84.61l-4.72-2.88a.56.56 0 00-.59 0l-4.72 2.88a.56.56 0 01-.84-.61l1.28-5.38a.56.56 0 00-.18-.56l-4.2-3.6a.56.56 0 01.32-.99l5.52-.44a.56.56 0 00.47-.35l2.13-5.11z";
+
+interface RatingStarsProps {
+  rating?: number;
+  // Clicking the current rating clears it
+  onChange: (rating: number | undefined) => void;
+  size?: "sm" | "md";
+  className?: string;
+}
+
+export default function RatingStars({ rating = 0, onChange, size = "md", className = "" }: RatingStarsProps) {
+  const iconClassName = size === "sm" ? "w-3.5 h-3.5" : "w-5 h-5";
+
+  return (
+    <div className={`flex items-center ${className}`} onClick={(e) => e.stopPropagation()}>
+      {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map((value) => (
+        <button
+          key={value}
+          onClick={() => onChange(value === rating ? undefined : value)}
+          title={value === rating ? "Clear rating" : `Rate ${value} of ${MAX_RATING}`}
+          className={value <= rating ? "text-yellow-400" : "text-gray-400 hover:text-yellow-300"}
+        >
+          <svg
+            className={iconClassName}
+            fill={value <= rating ? "currentColor" : "none"}
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={STAR_PATH} />
+          </svg>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import MaskEditor from "@/components/MaskEditor";
+import RatingStars from "@/components/RatingStars";
+import { MAX_IMAGE_COUNT } from "@/lib/generateSchema";
+import { GeneratedImage } from "@/lib/types";
+
+// Options for the next refine, kept between refines
+export interface RefineSettings {
+  count: number;
+  // Send the uploaded style references along with the parent image
+  useStyleReferences: boolean;
+}
+
+export const DEFAULT_REFINE_SETTINGS: RefineSettings = { count: 3, useStyleReferences: true };
+
+function variationsLabel(count: number): string {
+  return `${count} ${count === 1 ? "Variation" : "Variations"}`;
+}
+
+interface RefinePanelProps {
+  image: GeneratedImage;
+  onDownloadBranch: (id: string) => void;
+  refinementPrompt: string;
+  onRefinementPromptChange: (value: string) => void;
+  onRefine: (img: GeneratedImage, mask: string | null) => void;
+  onCancelRefine: () => void;
+  refiningImageId: string | null;
+  refineSettings: RefineSettings;
+  onRefineSettingsChange: (settings: RefineSettings) => void;
+  onRate: (id: string, rating: number | undefined) => void;
+  // Removes the image and all its refinements
+  onPrune: (id: string) => void;
+}
+
+// Prompt box for refining the selected image
+export default function RefinePanel({
+  image,
+  onDownloadBranch,
+  refinementPrompt,
+  onRefinementPromptChange,
+  onRefine,
+  onCancelRefine,
+  refiningImageId,
+  refineSettings,
+  onRefineSettingsChange,
+  onRate,
+  onPrune,
+}: RefinePanelProps) {
+  const [isEditingRegion, setIsEditingRegion] = useState(false);
+  const [mask, setMask] = useState<string | null>(null);
+  const regionMask = isEditingRegion ? mask : null;
+
+  return (
+    <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800 space-y-3">
+      <div className="flex items-center gap-3 flex-wrap">
+        <img
+          src={image.url}
+          alt="Selected"
+          className="w-20 h-12 object-cover rounded"
+        />
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-foreground mb-1">
+            Refine this image
+          </label>
+          <p className="text-xs text-gray-500">Describe what changes you want to make</p>
+        </div>
+        <RatingStars rating={image.rating} onChange={(rating) => onRate(image.id, rating)} />
+        <button
+          onClick={() => setIsEditingRegion(!isEditingRegion)}
+          className="px-3 py-1.5 rounded-lg text-sm font-medium text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-900/40 transition-colors"
+        >
+          {isEditingRegion ? "Edit whole image" : "Edit a region"}
+        </button>
+        <button
+          onClick={() => onDownloadBranch(image.id)}
+          className="px-3 py-1.5 rounded-lg text-sm font-medium text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-900/40 transition-colors"
+        >
+          Download branch
+        </button>
+        <button
+          onClick={() => onPrune(image.id)}
+          disabled={refiningImageId !== null}
+          title="Remove this image and all its refinements"
+          className="px-3 py-1.5 rounded-lg text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Prune branch
+        </button>
+      </div>
+      {isEditingRegion && <MaskEditor imageUrl={image.url} onChange={setMask} />}
+      <textarea
+        value={refinementPrompt}
+        onChange={(e) => onRefinementPromptChange(e.target.value)}
+        rows={3}
+        className="w-full px-4 py-3 rounded-lg border border-blue-300 dark:border-blue-600 bg-white dark:bg-gray-800 text-foreground focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+        placeholder="What should be changed? e.g., 'Make the colors more vibrant' or 'Add more detail to the background'"
+      />
+      <div className="flex items-center gap-4 flex-wrap text-sm text-foreground">
+        <label className="flex items-center gap-2">
+          Variations
+          <select
+            value={refineSettings.count}
+            onChange={(e) => onRefineSettingsChange({ ...refineSettings, count: Number(e.target.value) })}
+            disabled={refiningImageId !== null}
+            className="px-2 py-1 rounded-lg border border-blue-300 dark:border-blue-600 bg-white dark:bg-gray-800 text-foreground"
+          >
+            {Array.from({ length: MAX_IMAGE_COUNT }, (_, i) => i + 1).map((n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={refineSettings.useStyleReferences}
+            onChange={(e) =>
+              onRefineSettingsChange({ ...refineSettings, useStyleReferences: e.target.checked })
+            }
+            disabled={refiningImageId !== null}
+          />
+          Send style references
+        </label>
+        {!refineSettings.useStyleReferences && (
+          <span className="text-xs text-gray-500">Refining from this image alone</span>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onRefine(image, regionMask)}
+          disabled={!refinementPrompt.trim() || refiningImageId !== null}
+          className={`flex-1 py-3 px-4 rounded-lg font-medium text-white transition-colors ${
+            refinementPrompt.trim() && refiningImageId === null
+              ? "bg-blue-600 hover:bg-blue-700"
+              : "bg-gray-400 cursor-not-allowed"
+          }`}
+        >
+          {refiningImageId === image.id ? (
+            <span className="flex items-center justify-center gap-2">
+              <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+              </svg>
+              Generating {variationsLabel(refineSettings.count)}...
+            </span>
+          ) : regionMask ? (
+            `Refine Region → Generate ${variationsLabel(refineSettings.count)}`
+          ) : (
+            `Refine → Generate ${variationsLabel(refineSettings.count)}`
+          )}
+        </button>
+        {refiningImageId === image.id && (
+          <button
+            onClick={onCancelRefine}
+            className="py-3 px-6 rounded-lg font-medium border border-gray-300 dark:border-gray-600 text-foreground hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
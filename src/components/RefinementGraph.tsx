@@ -0,0 +1,202 @@
+"use client";
+
+import { useMemo, useRef } from "react";
+import { useZoomPan } from "@/hooks/useZoomPan";
+import { mergeLetter } from "@/lib/promptTemplates";
+import { hasFavorite, layoutTree } from "@/lib/treeLayout";
+import { GeneratedImage } from "@/lib/types";
+
+interface RefinementGraphProps {
+  images: GeneratedImage[];
+  selectedImageId: string | null;
+  onSelect: (id: string | null) => void;
+  onPreview: (id: string) => void;
+  // Images picked to merge, in letter order
+  mergeIds: string[];
+  onToggleMerge: (id: string) => void;
+  // Only branches with a favorite are drawn; the other images on them are faded
+  favoritesOnly: boolean;
+}
+
+const NODE_WIDTH = 192;
+const NODE_HEIGHT = 108;
+const PADDING = 16;
+const MAX_EDGE_LABEL = 28;
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+// Node-link view of the whole refinement tree. At 100% the graph fits the
+// panel; zoom in to read thumbnails and edge labels.
+export default function RefinementGraph({
+  images,
+  selectedImageId,
+  onSelect,
+  onPreview,
+  mergeIds,
+  onToggleMerge,
+  favoritesOnly,
+}: RefinementGraphProps) {
+  const { containerRef, view, transform, zoomBy, reset, panHandlers } = useZoomPan();
+  // Where the last press started, so releasing a pan doesn't select a node
+  const pressRef = useRef<{ x: number; y: number } | null>(null);
+
+  const layout = useMemo(
+    () =>
+      layoutTree(images, {
+        nodeWidth: NODE_WIDTH,
+        nodeHeight: NODE_HEIGHT,
+        columnGap: 160,
+        rowGap: 24,
+        isVisible: favoritesOnly ? hasFavorite : undefined,
+      }),
+    [images, favoritesOnly]
+  );
+
+  const wasDragged = (e: React.MouseEvent) =>
+    pressRef.current !== null &&
+    Math.hypot(e.clientX - pressRef.current.x, e.clientY - pressRef.current.y) > 4;
+
+  const buttonClassName =
+    "px-2.5 py-1 rounded-lg text-sm border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-foreground hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50";
+
+  return (
+    <div className="relative h-[36rem] rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 overflow-hidden">
+      <div
+        ref={containerRef}
+        {...panHandlers}
+        onPointerDownCapture={(e) => {
+          pressRef.current = { x: e.clientX, y: e.clientY };
+        }}
+        className={`w-full h-full flex items-center justify-center touch-none ${
+          view.scale > 1 ? "cursor-grab active:cursor-grabbing" : ""
+        }`}
+      >
+        <svg
+          viewBox={`${-PADDING} ${-PADDING} ${layout.width + PADDING * 2} ${layout.height + PADDING * 2}`}
+          className="w-full h-full select-none"
+          style={{ transform }}
+        >
+          <defs>
+            <clipPath id="graph-node-clip">
+              <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={8} />
+            </clipPath>
+          </defs>
+
+          {layout.edges.map(({ from, to, label }) => {
+            const startX = from.x + NODE_WIDTH;
+            const startY = from.y + NODE_HEIGHT / 2;
+            const endX = to.x;
+            const endY = to.y + NODE_HEIGHT / 2;
+            const midX = (startX + endX) / 2;
+            const isMerge = Boolean(to.image.provenance?.mergedFrom);
+            return (
+              <g key={`${from.image.id}-${to.image.id}`}>
+                <path
+                  d={`M ${startX} ${startY} C ${midX} ${startY}, ${midX} ${endY}, ${endX} ${endY}`}
+                  fill="none"
+                  strokeWidth={2}
+                  strokeDasharray={isMerge ? "6 4" : undefined}
+                  className={isMerge ? "stroke-purple-400" : "stroke-gray-300 dark:stroke-gray-600"}
+                />
+                {label && (
+                  <text
+                    x={midX}
+                    y={(startY + endY) / 2 - 6}
+                    textAnchor="middle"
+                    fontSize={12}
+                    // Halo in the panel colour keeps labels readable over edges
+                    className="fill-gray-600 dark:fill-gray-300 stroke-gray-50 dark:stroke-gray-900"
+                    paintOrder="stroke"
+                    strokeWidth={4}
+                  >
+                    <title>{label}</title>
+                    {truncate(label, MAX_EDGE_LABEL)}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {layout.nodes.map(({ image, label, x, y }) => {
+            const isSelected = image.id === selectedImageId;
+            const mergeIndex = mergeIds.indexOf(image.id);
+            return (
+              <g
+                key={image.id}
+                transform={`translate(${x}, ${y})`}
+                opacity={favoritesOnly && !image.favorite ? 0.4 : 1}
+                className="cursor-pointer"
+                onClick={(e) => {
+                  if (wasDragged(e)) return;
+                  if (e.shiftKey || e.metaKey || e.ctrlKey) {
+                    onToggleMerge(image.id);
+                    return;
+                  }
+                  onSelect(isSelected ? null : image.id);
+                }}
+                onDoubleClick={() => onPreview(image.id)}
+              >
+                <title>{`${label} — double-click to open`}</title>
+                <image
+                  href={image.url}
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  preserveAspectRatio="xMidYMid slice"
+                  clipPath="url(#graph-node-clip)"
+                />
+                <rect
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  rx={8}
+                  fill="none"
+                  strokeWidth={isSelected ? 4 : 1}
+                  className={isSelected ? "stroke-blue-500" : "stroke-gray-300 dark:stroke-gray-600"}
+                />
+                <text
+                  x={8}
+                  y={NODE_HEIGHT - 8}
+                  fontSize={12}
+                  fill="white"
+                  paintOrder="stroke"
+                  stroke="rgba(0, 0, 0, 0.6)"
+                  strokeWidth={3}
+                >
+                  {label}
+                  {image.favorite && " ★"}
+                </text>
+                {mergeIndex !== -1 && (
+                  <g transform="translate(20, 20)">
+                    <circle r={14} className="fill-purple-600" />
+                    <text textAnchor="middle" dy="0.35em" fontSize={14} fontWeight="bold" fill="white">
+                      {mergeLetter(mergeIndex)}
+                    </text>
+                  </g>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="absolute bottom-3 left-3 flex items-center gap-2">
+        <button onClick={() => zoomBy(1 / 1.5)} disabled={view.scale <= 1} className={buttonClassName}>
+          −
+        </button>
+        <span className="w-12 text-center text-sm text-gray-500 tabular-nums">
+          {Math.round(view.scale * 100)}%
+        </span>
+        <button onClick={() => zoomBy(1.5)} className={buttonClassName}>
+          +
+        </button>
+        <button onClick={reset} className={buttonClassName}>
+          Fit
+        </button>
+      </div>
+      <p className="absolute top-3 right-3 text-xs text-gray-500">
+        Click to select · shift-click to merge · double-click to open · scroll to zoom
+      </p>
+    </div>
+  );
+}
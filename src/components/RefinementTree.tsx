@@ -0,0 +1,271 @@
+"use client";
+
+import { MAX_COMPARE_IMAGES } from "@/components/CompareView";
+import CompareToggle from "@/components/CompareToggle";
+import FailedSlotCard from "@/components/FailedSlotCard";
+import FavoriteToggle from "@/components/FavoriteToggle";
+import ImageDetailsPopover from "@/components/ImageDetailsPopover";
+import MergeBadge, { isMergeClick } from "@/components/MergeBadge";
+import RefinePanel, { RefineSettings } from "@/components/RefinePanel";
+import { mergeParentLabels } from "@/lib/imageTree";
+import { hasFavorite } from "@/lib/treeLayout";
+import { FailedSlot, GeneratedImage } from "@/lib/types";
+
+interface RefinementTreeProps {
+  parentLabel: string;
+  parentId: string;
+  parentUrl: string;
+  refinements: GeneratedImage[];
+  depth: number;
+  selectedImageId: string | null;
+  onSelect: (id: string | null) => void;
+  onPreview: (id: string) => void;
+  onDownload: (url: string, name: string) => void;
+  onExport: (id: string, name: string) => void;
+  onDownloadBranch: (id: string) => void;
+  refinementPrompt: string;
+  onRefinementPromptChange: (value: string) => void;
+  onRefine: (img: GeneratedImage, mask: string | null) => void;
+  onCancelRefine: () => void;
+  refiningImageId: string | null;
+  failedSlots: FailedSlot[];
+  onRetrySlot: (slot: FailedSlot) => void;
+  onCancelRetry: (slotId: string) => void;
+  compareIds: string[];
+  onToggleCompare: (id: string) => void;
+  onCompareWithParent: (parentId: string, refinements: GeneratedImage[]) => void;
+  refineSettings: RefineSettings;
+  onRefineSettingsChange: (settings: RefineSettings) => void;
+  mergeIds: string[];
+  onToggleMerge: (id: string) => void;
+  firstParentIds: Map<string, string>;
+  favoritesOnly: boolean;
+  onToggleFavorite: (id: string) => void;
+  onRate: (id: string, rating: number | undefined) => void;
+  onPrune: (id: string) => void;
+  // The whole tree, for labelling merge parents
+  rootImages: GeneratedImage[];
+}
+
+// One row of refinements under a parent, with the rows below each of them
+export default function RefinementTree({
+  parentLabel,
+  parentId,
+  parentUrl,
+  refinements,
+  depth,
+  selectedImageId,
+  onSelect,
+  onPreview,
+  onDownload,
+  onExport,
+  onDownloadBranch,
+  refinementPrompt,
+  onRefinementPromptChange,
+  onRefine,
+  onCancelRefine,
+  refiningImageId,
+  failedSlots,
+  onRetrySlot,
+  onCancelRetry,
+  compareIds,
+  onToggleCompare,
+  onCompareWithParent,
+  refineSettings,
+  onRefineSettingsChange,
+  mergeIds,
+  onToggleMerge,
+  firstParentIds,
+  favoritesOnly,
+  onToggleFavorite,
+  onRate,
+  onPrune,
+  rootImages,
+}: RefinementTreeProps) {
+  // A merged image is shown in the row of every parent, but its refine panel
+  // and its own refinements only under the first
+  const isPrimaryRow = (img: GeneratedImage) => (firstParentIds.get(img.id) ?? parentId) === parentId;
+  // With the favorites filter on, only branches leading to a favorite are shown
+  const isShown = (img: GeneratedImage) => !favoritesOnly || hasFavorite(img);
+  const otherParents = (img: GeneratedImage) => mergeParentLabels(rootImages, img, parentId);
+  const selectedInThisRow = refinements.find(r => r.id === selectedImageId && isPrimaryRow(r));
+  // Region edits are shown next to the original so the change is easy to spot
+  const hasRegionEdits = refinements.some(r => r.provenance?.regionMaskHash);
+  const failedInThisRow = failedSlots.filter(slot => slot.parentId === parentId);
+  const hasChildren = (img: GeneratedImage) =>
+    img.refinements.length > 0 || failedSlots.some(slot => slot.parentId === img.id);
+
+  return (
+    <div className={`space-y-3 ${depth > 0 ? "ml-4 pl-4 border-l-2 border-gray-200 dark:border-gray-700" : ""}`}>
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-500">
+          From {parentLabel} {depth > 0 && <span className="text-xs text-blue-500">(depth {depth})</span>}
+        </p>
+        {refinements.length > 0 && (
+          <button
+            onClick={() => onCompareWithParent(parentId, refinements)}
+            className="text-xs text-blue-600 hover:underline"
+          >
+            Compare with parent
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {hasRegionEdits && (
+          <div className="relative rounded-lg overflow-hidden border-4 border-dashed border-gray-300 dark:border-gray-600">
+            <img src={parentUrl} alt="Original" className="w-full aspect-video object-cover" />
+            <div className="absolute top-2 left-2 bg-black/60 text-white text-xs px-2 py-1 rounded">
+              Original
+            </div>
+          </div>
+        )}
+        {refinements.map((refined, rIndex) => isShown(refined) && (
+          <div
+            key={refined.id}
+            className={`relative group cursor-pointer rounded-lg overflow-hidden border-4 transition-all ${
+              selectedImageId === refined.id
+                ? "border-blue-500 ring-2 ring-blue-300"
+                : "border-transparent hover:border-gray-300"
+            } ${favoritesOnly && !refined.favorite ? "opacity-40" : ""}`}
+            onClick={(e) =>
+              isMergeClick(e)
+                ? onToggleMerge(refined.id)
+                : onSelect(selectedImageId === refined.id ? null : refined.id)
+            }
+          >
+            <img
+              src={refined.url}
+              alt={`Refined ${rIndex + 1}`}
+              className="w-full aspect-video object-cover"
+            />
+            <div className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-colors" />
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onPreview(refined.id);
+              }}
+              className="absolute top-2 left-2 bg-black/50 hover:bg-black/70 text-white rounded-full w-8 h-8 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v3m0 0v3m0-3h3m-3 0H7" />
+              </svg>
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onDownload(refined.url, `refined-depth${depth}-${rIndex + 1}`);
+              }}
+              className="absolute top-2 right-2 bg-black/50 hover:bg-black/70 text-white rounded-full w-8 h-8 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onExport(refined.id, `refined-depth${depth}-${rIndex + 1}`);
+              }}
+              title="Export to Excalidraw"
+              className="absolute top-2 right-12 bg-black/50 hover:bg-black/70 text-white rounded-full w-8 h-8 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+              </svg>
+            </button>
+            <FavoriteToggle favorite={Boolean(refined.favorite)} onToggle={() => onToggleFavorite(refined.id)} />
+            <ImageDetailsPopover
+              provenance={refined.provenance}
+              mergedFromLabels={mergeParentLabels(rootImages, refined)}
+              className="absolute bottom-2 right-2"
+            />
+            <CompareToggle
+              position={compareIds.indexOf(refined.id) + 1}
+              disabled={!compareIds.includes(refined.id) && compareIds.length >= MAX_COMPARE_IMAGES}
+              onToggle={() => onToggleCompare(refined.id)}
+            />
+            <MergeBadge index={mergeIds.indexOf(refined.id)} />
+            {otherParents(refined).length > 0 && (
+              <div className="absolute bottom-12 left-2 max-w-[calc(100%-1rem)] truncate bg-purple-600/90 text-white text-xs px-2 py-1 rounded">
+                Merged with {otherParents(refined).join(" + ")}
+              </div>
+            )}
+            {selectedImageId === refined.id && (
+              <div className="absolute bottom-2 left-1/2 -translate-x-1/2 bg-blue-500 text-white text-xs px-2 py-1 rounded">
+                Selected
+              </div>
+            )}
+          </div>
+        ))}
+        {failedInThisRow.map((slot) => (
+          <FailedSlotCard
+            key={slot.id}
+            index={slot.index}
+            error={slot.error}
+            attempts={slot.attempts}
+            isRetrying={slot.isRetrying}
+            onRetry={() => onRetrySlot(slot)}
+            onCancel={() => onCancelRetry(slot.id)}
+          />
+        ))}
+      </div>
+
+      {/* Refinement panel for this row */}
+      {selectedInThisRow && (
+        <RefinePanel
+          key={selectedInThisRow.id}
+          image={selectedInThisRow}
+          onDownloadBranch={onDownloadBranch}
+          refinementPrompt={refinementPrompt}
+          onRefinementPromptChange={onRefinementPromptChange}
+          onRefine={onRefine}
+          onCancelRefine={onCancelRefine}
+          refiningImageId={refiningImageId}
+          refineSettings={refineSettings}
+          onRefineSettingsChange={onRefineSettingsChange}
+          onRate={onRate}
+          onPrune={onPrune}
+        />
+      )}
+
+      {/* Recursively render child refinements */}
+      {refinements.filter((r) => isPrimaryRow(r) && isShown(r) && hasChildren(r)).map((refined) => (
+        <RefinementTree
+          key={refined.id}
+          parentLabel={`Refinement ${refinements.indexOf(refined) + 1}`}
+          parentId={refined.id}
+          parentUrl={refined.url}
+          refinements={refined.refinements}
+          depth={depth + 1}
+          selectedImageId={selectedImageId}
+          onSelect={onSelect}
+          onPreview={onPreview}
+          onDownload={onDownload}
+          onExport={onExport}
+          onDownloadBranch={onDownloadBranch}
+          refinementPrompt={refinementPrompt}
+          onRefinementPromptChange={onRefinementPromptChange}
+          onRefine={onRefine}
+          onCancelRefine={onCancelRefine}
+          refiningImageId={refiningImageId}
+          refineSettings={refineSettings}
+          onRefineSettingsChange={onRefineSettingsChange}
+          failedSlots={failedSlots}
+          onRetrySlot={onRetrySlot}
+          onCancelRetry={onCancelRetry}
+          compareIds={compareIds}
+          onToggleCompare={onToggleCompare}
+          onCompareWithParent={onCompareWithParent}
+          mergeIds={mergeIds}
+          onToggleMerge={onToggleMerge}
+          firstParentIds={firstParentIds}
+          favoritesOnly={favoritesOnly}
+          onToggleFavorite={onToggleFavorite}
+          onRate={onRate}
+          onPrune={onPrune}
+          rootImages={rootImages}
+        />
+      ))}
+    </div>
+  );
+}
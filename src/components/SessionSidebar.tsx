@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import { SessionSummary } from "@/lib/sessionStore";
+
+interface SessionSidebarProps {
+  isOpen: boolean;
+  sessions: SessionSummary[];
+  currentSessionId: string | null;
+  onClose: () => void;
+  onNew: () => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function SessionSidebar({
+  isOpen,
+  sessions,
+  currentSessionId,
+  onClose,
+  onNew,
+  onOpen,
+  onRename,
+  onDelete,
+}: SessionSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  if (!isOpen) return null;
+
+  const startRename = (session: SessionSummary) => {
+    setEditingId(session.id);
+    setEditingName(session.name || session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && editingName.trim()) {
+      onRename(editingId, editingName);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex" onClick={onClose}>
+      <aside
+        className="w-80 h-full bg-white dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700 shadow-xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 flex items-center justify-between border-b border-gray-200 dark:border-gray-700">
+          <h2 className="font-medium text-foreground">Sessions</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4">
+          <button
+            onClick={onNew}
+            className="w-full py-2 px-4 rounded-lg font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+          >
+            New Session
+          </button>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto px-2 pb-4 space-y-1">
+          {sessions.length === 0 && (
+            <li className="px-2 text-sm text-gray-500">No saved sessions yet</li>
+          )}
+          {sessions.map((session) => (
+            <li
+              key={session.id}
+              className={`group rounded-lg px-3 py-2 cursor-pointer ${
+                session.id === currentSessionId
+                  ? "bg-blue-50 dark:bg-blue-900/20"
+                  : "hover:bg-gray-100 dark:hover:bg-gray-800"
+              }`}
+              onClick={() => onOpen(session.id)}
+            >
+              {editingId === session.id ? (
+                <input
+                  autoFocus
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  onClick={(e) => e.stopPropagation()}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  className="w-full px-2 py-1 rounded border border-blue-300 dark:border-blue-600 bg-white dark:bg-gray-800 text-sm text-foreground"
+                />
+              ) : (
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">
+                      {session.name || session.title}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatTimestamp(session.updatedAt)} · {session.imageCount} images
+                    </p>
+                  </div>
+                  <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startRename(session);
+                      }}
+                      className="text-xs text-gray-500 hover:text-blue-600"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        if (confirm(`Delete "${session.name || session.title}"?`)) {
+                          onDelete(session.id);
+                        }
+                      }}
+                      className="text-xs text-gray-500 hover:text-red-600"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </aside>
+      <div className="flex-1 bg-black/30" />
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import RatingStars from "@/components/RatingStars";
+import { GeneratedImage } from "@/lib/types";
+
+export interface ShortlistItem {
+  image: GeneratedImage;
+  // Position in the refinement tree, e.g. "Image 2 › 1"
+  label: string;
+}
+
+interface ShortlistProps {
+  // Highest rated first
+  items: ShortlistItem[];
+  onOpen: (id: string) => void;
+  onRemove: (id: string) => void;
+  onRate: (id: string, rating: number | undefined) => void;
+  onCompare: () => void;
+  onDownload: () => void;
+}
+
+// Favorites from anywhere in the tree, pinned to the top of the page for
+// final picking and export
+export default function Shortlist({ items, onOpen, onRemove, onRate, onCompare, onDownload }: ShortlistProps) {
+  const buttonClassName =
+    "px-3 py-1.5 rounded-lg text-sm font-medium border border-gray-300 dark:border-gray-600 text-foreground hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="sticky top-0 z-40 -mx-2 mb-6 p-3 rounded-b-xl shadow-lg bg-white/95 dark:bg-gray-950/95 backdrop-blur border border-t-0 border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <p className="text-sm font-medium text-foreground">
+          Shortlist <span className="text-gray-500 font-normal">({items.length})</span>
+        </p>
+        <div className="flex items-center gap-2">
+          <button onClick={onCompare} disabled={items.length < 2} className={buttonClassName}>
+            Compare
+          </button>
+          <button onClick={onDownload} className={buttonClassName}>
+            Download shortlist
+          </button>
+        </div>
+      </div>
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {items.map(({ image, label }) => (
+          <div key={image.id} className="relative group shrink-0 w-36">
+            <img
+              src={image.url}
+              alt={label}
+              title={`${label} — click to open`}
+              onClick={() => onOpen(image.id)}
+              className="w-36 h-20 object-cover rounded cursor-pointer"
+            />
+            <button
+              onClick={() => onRemove(image.id)}
+              title="Remove from favorites"
+              className="absolute top-1 right-1 bg-black/60 hover:bg-black/80 text-white rounded-full w-5 h-5 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+            <div className="mt-1 flex items-center justify-between gap-1">
+              <span className="text-xs text-gray-500 truncate">{label}</span>
+              <RatingStars rating={image.rating} onChange={(rating) => onRate(image.id, rating)} size="sm" />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
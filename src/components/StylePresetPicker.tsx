@@ -0,0 +1,150 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { usePresets } from "@/hooks/usePresets";
+import { toUploadedImage } from "@/lib/db";
+import { StylePreset, exportPresets } from "@/lib/presetStore";
+import { UploadedImage } from "@/lib/types";
+
+interface StylePresetPickerProps {
+  systemPrompt: string;
+  references: UploadedImage[];
+  // Replace the current references and system prompt with a preset's
+  onApply: (references: UploadedImage[], systemPrompt: string) => void;
+  onError: (message: string) => void;
+}
+
+function presetFilename(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${slug || "style"}.preset.json`;
+}
+
+export default function StylePresetPicker({
+  systemPrompt,
+  references,
+  onApply,
+  onError,
+}: StylePresetPickerProps) {
+  const { presets, savePreset, deletePreset, importPresets } = usePresets();
+  const [activePresetId, setActivePresetId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activePreset = presets.find((p) => p.id === activePresetId) ?? null;
+
+  const applyPreset = (preset: StylePreset) => {
+    setActivePresetId(preset.id);
+    onApply(preset.references.map(toUploadedImage), preset.systemPrompt);
+  };
+
+  const handleSelect = (id: string) => {
+    const preset = presets.find((p) => p.id === id);
+    if (preset) {
+      applyPreset(preset);
+    } else {
+      setActivePresetId(null);
+    }
+  };
+
+  const handleSaveNew = async () => {
+    const name = prompt("Name this style preset", activePreset?.name ?? "");
+    if (!name?.trim()) return;
+    try {
+      const saved = await savePreset(name, systemPrompt, references);
+      setActivePresetId(saved.id);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : "Failed to save preset");
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!activePreset) return;
+    try {
+      await savePreset(activePreset.name, systemPrompt, references, activePreset);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : "Failed to update preset");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activePreset || !confirm(`Delete the "${activePreset.name}" preset?`)) return;
+    try {
+      await deletePreset(activePreset.id);
+      setActivePresetId(null);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : "Failed to delete preset");
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const imported = await importPresets(file);
+      if (imported.length === 1) applyPreset(imported[0]);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : "Failed to import presets");
+    }
+  };
+
+  const handleExport = () => {
+    if (activePreset) {
+      exportPresets([activePreset], presetFilename(activePreset.name));
+    } else {
+      exportPresets(presets, "excalidragram-styles.preset.json");
+    }
+  };
+
+  const buttonClassName =
+    "px-3 py-2 rounded-lg text-sm border border-gray-300 dark:border-gray-600 text-foreground hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div>
+      <label className="block text-sm font-medium mb-2 text-foreground">Style Preset</label>
+      <div className="flex gap-2 flex-wrap">
+        <select
+          value={activePresetId ?? ""}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 min-w-48 px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-foreground focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="">{presets.length > 0 ? "Custom (no preset)" : "No saved presets"}</option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name} ({preset.references.length} images)
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleSaveNew}
+          disabled={references.length === 0}
+          className={buttonClassName}
+        >
+          Save as preset
+        </button>
+        {activePreset && (
+          <>
+            <button onClick={handleUpdate} disabled={references.length === 0} className={buttonClassName}>
+              Update
+            </button>
+            <button onClick={handleDelete} className={buttonClassName}>
+              Delete
+            </button>
+          </>
+        )}
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClassName}>
+          Import
+        </button>
+        <button onClick={handleExport} disabled={presets.length === 0} className={buttonClassName}>
+          {activePreset ? "Export" : "Export all"}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useState, useCallback, useRef } from "react";
+import { BatchItem } from "@/lib/batchParser";
+import { isAbortError } from "@/lib/generateClient";
+import { GeneratedImage } from "@/lib/types";
+
+export type BatchItemStatus = "queued" | "running" | "done" | "failed";
+
+export interface BatchJob extends BatchItem {
+  status: BatchItemStatus;
+  images: GeneratedImage[];
+  // One message per variation that came back without an image, or the
+  // request error if the whole item failed
+  errors: string[];
+}
+
+export interface BatchCallbacks {
+  onImage: (image: GeneratedImage) => void;
+  onError: (message: string) => void;
+}
+
+// Generates every variation for one item, reporting results as they arrive
+export type BatchRunner = (
+  item: BatchItem,
+  signal: AbortSignal,
+  callbacks: BatchCallbacks
+) => Promise<void>;
+
+// Runs one generation job per item, one item at a time. Pausing lets the
+// running item finish; the runner passed to start() is reused on resume so
+// every item uses the settings the batch was started with.
+export function useBatchQueue() {
+  const [jobs, setJobsState] = useState<BatchJob[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+
+  const jobsRef = useRef<BatchJob[]>([]);
+  const runnerRef = useRef<BatchRunner | null>(null);
+  const pausedRef = useRef(false);
+  const runningRef = useRef(false);
+  // Bumped by clear() so a loop still winding down from its abort stops
+  // touching the queue and doesn't block the next batch
+  const batchRef = useRef(0);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const updateJobs = useCallback((update: (jobs: BatchJob[]) => BatchJob[]) => {
+    jobsRef.current = update(jobsRef.current);
+    setJobsState(jobsRef.current);
+  }, []);
+
+  const updateJob = useCallback(
+    (id: string, update: (job: BatchJob) => BatchJob) => {
+      updateJobs((prev) => prev.map((job) => (job.id === id ? update(job) : job)));
+    },
+    [updateJobs]
+  );
+
+  const processQueue = useCallback(async () => {
+    if (runningRef.current || !runnerRef.current) return;
+    const batchId = batchRef.current;
+    runningRef.current = true;
+    setIsRunning(true);
+
+    try {
+      while (!pausedRef.current && batchId === batchRef.current) {
+        const next = jobsRef.current.find((job) => job.status === "queued");
+        if (!next) break;
+
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        updateJob(next.id, (job) => ({ ...job, status: "running", images: [], errors: [] }));
+
+        try {
+          await runnerRef.current(next, controller.signal, {
+            onImage: (image) =>
+              updateJob(next.id, (job) => ({ ...job, images: [...job.images, image] })),
+            onError: (message) =>
+              updateJob(next.id, (job) => ({ ...job, errors: [...job.errors, message] })),
+          });
+          updateJob(next.id, (job) => ({
+            ...job,
+            status: job.images.length > 0 ? "done" : "failed",
+          }));
+        } catch (error) {
+          if (isAbortError(error)) break;
+          updateJob(next.id, (job) => ({
+            ...job,
+            status: "failed",
+            errors: [...job.errors, error instanceof Error ? error.message : "Generation failed"],
+          }));
+        }
+      }
+    } finally {
+      if (batchId === batchRef.current) {
+        controllerRef.current = null;
+        runningRef.current = false;
+        setIsRunning(false);
+      }
+    }
+  }, [updateJob]);
+
+  const load = useCallback(
+    (items: BatchItem[]) => {
+      updateJobs(() => items.map((item) => ({ ...item, status: "queued", images: [], errors: [] })));
+    },
+    [updateJobs]
+  );
+
+  const start = useCallback(
+    (runner: BatchRunner) => {
+      runnerRef.current = runner;
+      pausedRef.current = false;
+      setIsPaused(false);
+      processQueue();
+    },
+    [processQueue]
+  );
+
+  const pause = useCallback(() => {
+    pausedRef.current = true;
+    setIsPaused(true);
+  }, []);
+
+  const resume = useCallback(() => {
+    pausedRef.current = false;
+    setIsPaused(false);
+    processQueue();
+  }, [processQueue]);
+
+  const retry = useCallback(
+    (id: string) => {
+      updateJob(id, (job) => ({ ...job, status: "queued", images: [], errors: [] }));
+      if (!pausedRef.current) processQueue();
+    },
+    [updateJob, processQueue]
+  );
+
+  // Abort the running item and drop the whole batch
+  const clear = useCallback(() => {
+    batchRef.current += 1;
+    pausedRef.current = true;
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    runnerRef.current = null;
+    runningRef.current = false;
+    setIsRunning(false);
+    setIsPaused(false);
+    updateJobs(() => []);
+  }, [updateJobs]);
+
+  return { jobs, isRunning, isPaused, load, start, pause, resume, retry, clear };
+}
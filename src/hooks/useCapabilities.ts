@@ -0,0 +1,48 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { Capabilities } from "@/lib/serverConfig";
+
+const DEFAULT_CAPABILITIES: Capabilities = {
+  apiKeyMode: "client",
+  defaultProvider: "gemini",
+  providers: [],
+};
+
+export function useCapabilities() {
+  const [capabilities, setCapabilities] = useState<Capabilities>(DEFAULT_CAPABILITIES);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadCapabilities() {
+      try {
+        const response = await fetch("/api/capabilities");
+        if (response.ok && !cancelled) {
+          setCapabilities(await response.json());
+        }
+      } catch (error) {
+        console.error("Failed to load capabilities:", error);
+      } finally {
+        if (!cancelled) setIsLoaded(true);
+      }
+    }
+
+    loadCapabilities();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const defaultProvider = capabilities.providers.find(
+    (provider) => provider.id === capabilities.defaultProvider
+  );
+
+  return {
+    capabilities,
+    isLoaded,
+    usesServerKey: capabilities.apiKeyMode === "server",
+    providerRequiresKey: defaultProvider?.requiresApiKey ?? true,
+  };
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  StylePreset,
+  deletePreset as deleteStoredPreset,
+  importPresets as importPresetFile,
+  listPresets,
+  savePreset as saveStoredPreset,
+} from "@/lib/presetStore";
+import { UploadedImage } from "@/lib/types";
+
+function sortByName(presets: StylePreset[]): StylePreset[] {
+  return [...presets].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function usePresets() {
+  const [presets, setPresets] = useState<StylePreset[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listPresets()
+      .then((stored) => {
+        if (!cancelled) setPresets(stored);
+      })
+      .catch((error) => console.error("Failed to load presets:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const savePreset = useCallback(
+    async (
+      name: string,
+      systemPrompt: string,
+      references: UploadedImage[],
+      existing?: StylePreset
+    ) => {
+      const saved = await saveStoredPreset(name, systemPrompt, references, existing);
+      setPresets((prev) => sortByName([...prev.filter((p) => p.id !== saved.id), saved]));
+      return saved;
+    },
+    []
+  );
+
+  const deletePreset = useCallback(async (id: string) => {
+    await deleteStoredPreset(id);
+    setPresets((prev) => prev.filter((p) => p.id !== id));
+  }, []);
+
+  const importPresets = useCallback(async (file: File) => {
+    const imported = await importPresetFile(file);
+    setPresets((prev) => sortByName([...prev, ...imported]));
+    return imported;
+  }, []);
+
+  return { presets, savePreset, deletePreset, importPresets };
+}
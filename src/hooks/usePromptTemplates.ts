@@ -0,0 +1,57 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { DEFAULT_TEMPLATE, PromptTemplate } from "@/lib/promptTemplates";
+import {
+  createTemplate as createStoredTemplate,
+  deleteTemplate as deleteStoredTemplate,
+  listTemplates,
+  saveTemplateVersion as saveStoredTemplateVersion,
+} from "@/lib/templateStore";
+
+function sortTemplates(templates: PromptTemplate[]): PromptTemplate[] {
+  return [...templates].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Saved prompt templates, with the built-in template always listed first
+export function usePromptTemplates() {
+  const [saved, setSaved] = useState<PromptTemplate[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listTemplates()
+      .then((stored) => {
+        if (!cancelled) setSaved(stored);
+      })
+      .catch((error) => console.error("Failed to load prompt templates:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const createTemplate = useCallback(async (name: string, body: string) => {
+    const created = await createStoredTemplate(name, body);
+    setSaved((prev) => sortTemplates([...prev, created]));
+    return created;
+  }, []);
+
+  const saveTemplateVersion = useCallback(async (template: PromptTemplate, body: string) => {
+    const updated = await saveStoredTemplateVersion(template, body);
+    setSaved((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+    return updated;
+  }, []);
+
+  const deleteTemplate = useCallback(async (id: string) => {
+    await deleteStoredTemplate(id);
+    setSaved((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  return {
+    templates: [DEFAULT_TEMPLATE, ...saved],
+    createTemplate,
+    saveTemplateVersion,
+    deleteTemplate,
+  };
+}
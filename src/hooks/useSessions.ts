@@ -0,0 +1,163 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  SessionSnapshot,
+  SessionSummary,
+  deleteSession as deleteStoredSession,
+  listSessions,
+  loadSession,
+  renameSession as renameStoredSession,
+  saveSession,
+} from "@/lib/sessionStore";
+
+const AUTOSAVE_DELAY_MS = 800;
+
+interface UseSessionsOptions {
+  snapshot: SessionSnapshot;
+  // Replace the page state with a stored session
+  onRestore: (snapshot: SessionSnapshot) => void;
+  // Reset the page state for a brand-new session
+  onReset: () => void;
+}
+
+function isEmptySnapshot(snapshot: SessionSnapshot): boolean {
+  return !snapshot.userContent.trim() && snapshot.generatedImages.length === 0;
+}
+
+// The page builds its snapshot from the restored fields as they are, so an
+// unchanged session shares every one of them with the stored copy
+function isSameSnapshot(a: SessionSnapshot, b: SessionSnapshot): boolean {
+  return (Object.keys(a) as (keyof SessionSnapshot)[]).every((key) => a[key] === b[key]);
+}
+
+export function useSessions({ snapshot, onRestore, onReset }: UseSessionsOptions) {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [isRestored, setIsRestored] = useState(false);
+
+  const callbacksRef = useRef({ onRestore, onReset });
+  useEffect(() => {
+    callbacksRef.current = { onRestore, onReset };
+  });
+
+  // Read by autosave, which runs on snapshot changes rather than list updates
+  const sessionsRef = useRef(sessions);
+  useEffect(() => {
+    sessionsRef.current = sessions;
+  });
+
+  // The session as it was last read from storage, until the page changes it.
+  // Saving it back would only bump its updatedAt and move it up the list.
+  const loadedSnapshotRef = useRef<SessionSnapshot | null>(null);
+
+  // Restore the most recently updated session on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    async function restoreLatest() {
+      try {
+        const stored = await listSessions();
+        const latest = stored[0] ? await loadSession(stored[0].id) : null;
+        if (cancelled) return;
+
+        setSessions(stored);
+        if (latest) {
+          setCurrentSessionId(stored[0].id);
+          loadedSnapshotRef.current = latest;
+          callbacksRef.current.onRestore(latest);
+        } else {
+          setCurrentSessionId(crypto.randomUUID());
+          callbacksRef.current.onReset();
+        }
+      } catch (error) {
+        console.error("Failed to restore session:", error);
+        if (cancelled) return;
+        setCurrentSessionId(crypto.randomUUID());
+        callbacksRef.current.onReset();
+      } finally {
+        if (!cancelled) setIsRestored(true);
+      }
+    }
+
+    restoreLatest();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Autosave the current session whenever its state changes. A fresh session
+  // with nothing in it is not written until it has content.
+  useEffect(() => {
+    if (!isRestored || !currentSessionId) return;
+    const isKnown = sessionsRef.current.some((s) => s.id === currentSessionId);
+    if (!isKnown && isEmptySnapshot(snapshot)) return;
+    if (loadedSnapshotRef.current) {
+      if (isSameSnapshot(snapshot, loadedSnapshotRef.current)) return;
+      // Changed since it was opened; undoing back to it must still be saved
+      loadedSnapshotRef.current = null;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const summary = await saveSession(currentSessionId, snapshot);
+        setSessions((prev) =>
+          [summary, ...prev.filter((s) => s.id !== summary.id)].sort(
+            (a, b) => b.updatedAt - a.updatedAt
+          )
+        );
+      } catch (error) {
+        console.error("Failed to save session:", error);
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [snapshot, currentSessionId, isRestored]);
+
+  const newSession = useCallback(() => {
+    loadedSnapshotRef.current = null;
+    setCurrentSessionId(crypto.randomUUID());
+    callbacksRef.current.onReset();
+  }, []);
+
+  const openSession = useCallback(async (id: string) => {
+    const stored = await loadSession(id);
+    if (!stored) return;
+    setCurrentSessionId(id);
+    loadedSnapshotRef.current = stored;
+    callbacksRef.current.onRestore(stored);
+  }, []);
+
+  const renameSession = useCallback(async (id: string, name: string) => {
+    await renameStoredSession(id, name);
+    setSessions((prev) =>
+      prev.map((s) => (s.id === id ? { ...s, name: name.trim() } : s))
+    );
+  }, []);
+
+  const deleteSession = useCallback(
+    async (id: string) => {
+      await deleteStoredSession(id);
+      const remaining = sessions.filter((s) => s.id !== id);
+      setSessions(remaining);
+
+      if (id !== currentSessionId) return;
+      if (remaining[0]) {
+        await openSession(remaining[0].id);
+      } else {
+        newSession();
+      }
+    },
+    [sessions, currentSessionId, openSession, newSession]
+  );
+
+  return {
+    sessions,
+    currentSessionId,
+    isRestored,
+    newSession,
+    openSession,
+    renameSession,
+    deleteSession,
+  };
+}
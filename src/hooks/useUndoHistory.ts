@@ -0,0 +1,99 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+
+// Changes within this long of each other (a burst of typing) are one step
+const COMMIT_DELAY_MS = 600;
+const MAX_HISTORY = 100;
+
+interface UseUndoHistoryOptions<T> {
+  snapshot: T;
+  // Put the page back into a recorded snapshot
+  onApply: (snapshot: T) => void;
+  // While true (e.g. a generation is streaming in) changes build up into one
+  // step and undo/redo are unavailable
+  paused: boolean;
+}
+
+interface HistoryState<T> {
+  past: T[];
+  // The latest recorded snapshot; the live one may have moved on since
+  committed: T;
+  future: T[];
+  // The next commit becomes the starting point instead of an undoable step
+  isBaselinePending: boolean;
+}
+
+// Snapshots are rebuilt on every change, so compare their fields
+function isSameSnapshot<T extends object>(a: T, b: T): boolean {
+  return (Object.keys(a) as (keyof T)[]).every((key) => a[key] === b[key]);
+}
+
+// Undo/redo over an immutable snapshot of page state. Snapshots share
+// structure, so keeping many of them is cheap.
+export function useUndoHistory<T extends object>({ snapshot, onApply, paused }: UseUndoHistoryOptions<T>) {
+  const [history, setHistory] = useState<HistoryState<T>>({
+    past: [],
+    committed: snapshot,
+    future: [],
+    isBaselinePending: true,
+  });
+  const isDirty = !isSameSnapshot(snapshot, history.committed);
+
+  useEffect(() => {
+    if (paused || !isDirty) return;
+    const timeout = setTimeout(() => {
+      setHistory((prev) =>
+        prev.isBaselinePending
+          ? { past: [], committed: snapshot, future: [], isBaselinePending: false }
+          : {
+              past: [...prev.past, prev.committed].slice(-MAX_HISTORY),
+              committed: snapshot,
+              future: [],
+              isBaselinePending: false,
+            }
+      );
+    }, COMMIT_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [snapshot, paused, isDirty]);
+
+  // Uncommitted changes count as the newest step
+  const past = useMemo(
+    () => (isDirty && !history.isBaselinePending ? [...history.past, history.committed] : history.past),
+    [isDirty, history]
+  );
+  const canUndo = !paused && past.length > 0;
+  const canRedo = !paused && !isDirty && history.future.length > 0;
+
+  const undo = useCallback(() => {
+    if (!canUndo) return;
+    const target = past[past.length - 1];
+    setHistory({
+      past: past.slice(0, -1),
+      committed: target,
+      future: [snapshot, ...(isDirty ? [] : history.future)],
+      isBaselinePending: false,
+    });
+    onApply(target);
+  }, [canUndo, past, snapshot, isDirty, history.future, onApply]);
+
+  const redo = useCallback(() => {
+    if (!canRedo) return;
+    const [target, ...rest] = history.future;
+    setHistory({
+      past: [...history.past, history.committed],
+      committed: target,
+      future: rest,
+      isBaselinePending: false,
+    });
+    onApply(target);
+  }, [canRedo, history, onApply]);
+
+  // Forget everything, e.g. when another session is opened; the state it
+  // settles into next is the new starting point
+  const reset = useCallback(() => {
+    setHistory((prev) => ({ ...prev, past: [], future: [], isBaselinePending: true }));
+  }, []);
+
+  return { canUndo, canRedo, undo, redo, reset };
+}
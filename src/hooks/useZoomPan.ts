@@ -0,0 +1,130 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+
+export interface ZoomPanView {
+  scale: number;
+  // Offset of the image centre from the pane centre, in screen pixels
+  x: number;
+  y: number;
+}
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 8;
+
+const IDENTITY: ZoomPanView = { scale: 1, x: 0, y: 0 };
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Position of a screen point relative to the centre of the pane it is over
+function relativeToPane(pane: Element, point: Point): Point {
+  const rect = pane.getBoundingClientRect();
+  return { x: point.x - rect.left - rect.width / 2, y: point.y - rect.top - rect.height / 2 };
+}
+
+// One zoom and pan state shared by every pane inside the container, so
+// side-by-side images stay in sync. The wheel (or a two-finger pinch) zooms
+// around the cursor in the pane under it (elements marked with
+// data-zoom-pane); dragging pans. Images must be centred in their pane.
+export function useZoomPan() {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<ZoomPanView>(IDENTITY);
+  // Active pointers: one pans, two pinch
+  const pointersRef = useRef(new Map<number, Point>());
+  const paneRef = useRef<Element | null>(null);
+
+  // Scale by factor keeping the point (originX, originY), relative to the
+  // pane centre, under the same spot
+  const zoomAt = useCallback((factor: number, originX = 0, originY = 0) => {
+    setView((prev) => {
+      const scale = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.scale * factor));
+      if (scale === MIN_ZOOM) return IDENTITY;
+      const ratio = scale / prev.scale;
+      return {
+        scale,
+        x: originX - (originX - prev.x) * ratio,
+        y: originY - (originY - prev.y) * ratio,
+      };
+    });
+  }, []);
+
+  // Jump to an absolute scale, centred
+  const zoomTo = useCallback((scale: number) => {
+    const clamped = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, scale));
+    setView(clamped === MIN_ZOOM ? IDENTITY : { scale: clamped, x: 0, y: 0 });
+  }, []);
+
+  // React registers wheel listeners as passive, so preventing page scroll
+  // needs a native listener
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const pane = (e.target as Element).closest("[data-zoom-pane]") ?? container;
+      const origin = relativeToPane(pane, { x: e.clientX, y: e.clientY });
+      zoomAt(Math.exp(-e.deltaY * 0.002), origin.x, origin.y);
+    };
+
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    return () => container.removeEventListener("wheel", handleWheel);
+  }, [zoomAt]);
+
+  const onPointerDown = (e: React.PointerEvent<HTMLElement>) => {
+    if (e.pointerType === "mouse" && e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    // Captured events all target the container, so remember the pane now
+    paneRef.current = (e.target as Element).closest("[data-zoom-pane]") ?? e.currentTarget;
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    const pointers = pointersRef.current;
+    const previous = pointers.get(e.pointerId);
+    if (!previous) return;
+    const current = { x: e.clientX, y: e.clientY };
+    pointers.set(e.pointerId, current);
+
+    if (pointers.size === 2) {
+      const other = [...pointers.entries()].find(([id]) => id !== e.pointerId)![1];
+      const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+      const after = Math.hypot(current.x - other.x, current.y - other.y);
+      const midpoint = relativeToPane(paneRef.current ?? e.currentTarget, {
+        x: (current.x + other.x) / 2,
+        y: (current.y + other.y) / 2,
+      });
+      if (before > 0) zoomAt(after / before, midpoint.x, midpoint.y);
+      return;
+    }
+
+    const dx = current.x - previous.x;
+    const dy = current.y - previous.y;
+    // Nothing to pan at fit-to-pane size
+    setView((prev) => (prev.scale === MIN_ZOOM ? prev : { ...prev, x: prev.x + dx, y: prev.y + dy }));
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLElement>) => {
+    pointersRef.current.delete(e.pointerId);
+  };
+
+  const reset = useCallback(() => setView(IDENTITY), []);
+
+  return {
+    containerRef,
+    view,
+    transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+    zoomBy: zoomAt,
+    zoomTo,
+    reset,
+    panHandlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel: onPointerUp,
+    },
+  };
+}
@@ -0,0 +1,163 @@
+// Split a CSV, JSON or Markdown file into content items for batch generation
+export interface BatchItem {
+  id: string;
+  title: string;
+  content: string;
+}
+
+const CONTENT_KEYS = ["content", "text", "body", "concept", "description"];
+const TITLE_KEYS = ["title", "name", "heading"];
+
+function deriveTitle(content: string): string {
+  const firstLine = content.trim().split("\n")[0] || "Untitled";
+  return firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine;
+}
+
+function toItem(content: string, title?: string): BatchItem | null {
+  const trimmed = content.trim();
+  if (!trimmed) return null;
+  return {
+    id: crypto.randomUUID(),
+    title: title?.trim() || deriveTitle(trimmed),
+    content: trimmed,
+  };
+}
+
+// RFC 4180 rows: quoted fields may contain commas, newlines and "" escapes
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+// Uses a content/title header row when there is one; otherwise each row's
+// first column is the content
+function parseCsv(text: string): BatchItem[] {
+  const rows = parseCsvRows(text);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
+  const contentColumn = header.findIndex((cell) => CONTENT_KEYS.includes(cell));
+  if (contentColumn === -1) {
+    return rows.map((row) => toItem(row[0])).filter((item): item is BatchItem => item !== null);
+  }
+
+  const titleColumn = header.findIndex((cell) => TITLE_KEYS.includes(cell));
+  return rows
+    .slice(1)
+    .map((row) =>
+      toItem(row[contentColumn] ?? "", titleColumn === -1 ? undefined : row[titleColumn])
+    )
+    .filter((item): item is BatchItem => item !== null);
+}
+
+// An array of strings, or of objects with a content field and optional title
+function parseJson(text: string): BatchItem[] {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data)) {
+    throw new Error("JSON batch files must contain an array");
+  }
+
+  return data
+    .map((entry, i) => {
+      if (typeof entry === "string") return toItem(entry);
+      if (typeof entry === "object" && entry !== null) {
+        const contentKey = CONTENT_KEYS.find((key) => typeof entry[key] === "string");
+        const titleKey = TITLE_KEYS.find((key) => typeof entry[key] === "string");
+        if (contentKey) return toItem(entry[contentKey], titleKey ? entry[titleKey] : undefined);
+      }
+      throw new Error(`Item ${i + 1} has no ${CONTENT_KEYS.join("/")} field`);
+    })
+    .filter((item): item is BatchItem => item !== null);
+}
+
+// One item per heading section; text before the first heading is its own
+// item. Headings with no text under them (e.g. the document title) are skipped,
+// and "#" lines inside ``` or ~~~ code fences are not headings.
+function parseMarkdown(text: string): BatchItem[] {
+  const items: BatchItem[] = [];
+  let heading: string | undefined;
+  let title: string | undefined;
+  let body: string[] = [];
+  // The open fence, e.g. "```"; it closes on a run of the same character at
+  // least as long
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (!body.join("").trim()) return;
+    const item = toItem([heading, ...body].filter((line) => line !== undefined).join("\n"), title);
+    if (item) items.push(item);
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (!fence) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length && !line.trim().slice(marker.length)) {
+        fence = null;
+      }
+    }
+
+    const match = fence || fenceMatch ? null : line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (match) {
+      flush();
+      heading = line;
+      title = match[1];
+      body = [];
+    } else {
+      body.push(line);
+    }
+  }
+  flush();
+  return items;
+}
+
+export function parseBatchFile(filename: string, text: string): BatchItem[] {
+  const extension = filename.split(".").pop()?.toLowerCase();
+  switch (extension) {
+    case "csv":
+      return parseCsv(text);
+    case "json":
+      return parseJson(text);
+    case "md":
+    case "markdown":
+      return parseMarkdown(text);
+    default:
+      throw new Error("Batch files must be .csv, .json or .md");
+  }
+}
@@ -0,0 +1,77 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { Concept } from "@/lib/concepts";
+
+function buildPrompt(article: string, count: number): string {
+  return `You help turn articles into explanatory diagrams. Read the article below and propose the ${count} concepts from it that would work best as standalone visual explanations (diagrams, annotated illustrations, comparisons, processes).
+
+For each concept give a short title and a description of 2-4 sentences that explains the idea on its own, without referring to "the article", so it can be handed directly to an illustrator. Order them as they appear in the article.
+
+Article:
+${article}`;
+}
+
+function parseConcepts(text: string | undefined, count: number): Concept[] {
+  if (!text) throw new Error("No response from model");
+  const data: unknown = JSON.parse(text);
+  if (!Array.isArray(data)) throw new Error("Model did not return a list of concepts");
+
+  return data
+    .filter(
+      (item): item is Concept =>
+        typeof item?.title === "string" && typeof item?.description === "string"
+    )
+    .map((item) => ({ title: item.title.trim(), description: item.description.trim() }))
+    .filter((item) => item.title && item.description)
+    .slice(0, count);
+}
+
+export async function splitConceptsWithGemini(
+  apiKey: string,
+  model: string,
+  article: string,
+  count: number,
+  signal?: AbortSignal
+): Promise<Concept[]> {
+  const genai = new GoogleGenAI({ apiKey });
+  const response = await genai.models.generateContent({
+    model,
+    contents: [{ role: "user", parts: [{ text: buildPrompt(article, count) }] }],
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            description: { type: Type.STRING },
+          },
+          required: ["title", "description"],
+        },
+      },
+    },
+  });
+
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new Error(`Article blocked by safety filters (${blockReason})`);
+  }
+  return parseConcepts(response.text, count);
+}
+
+// Offline stand-in for the mock image provider: one concept per paragraph
+export function splitConceptsOffline(article: string, count: number): Concept[] {
+  return article
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .slice(0, count)
+    .map((paragraph) => {
+      const firstLine = paragraph.split("\n")[0].replace(/^#+\s*/, "");
+      return {
+        title: firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine,
+        description: paragraph,
+      };
+    });
+}
@@ -0,0 +1,69 @@
+import type { FieldErrors } from "@/lib/generateSchema";
+
+// A visualizable idea pulled out of a longer article
+export interface Concept {
+  title: string;
+  description: string;
+}
+
+export interface ConceptsRequest {
+  article: string;
+  count: number;
+  apiKey?: string;
+}
+
+// Reported as the model when the article was split locally into paragraphs
+export const OFFLINE_CONCEPTS_MODEL = "offline";
+
+export interface ConceptsResponse {
+  concepts: Concept[];
+  model: string;
+}
+
+export const MIN_CONCEPTS = 1;
+export const MAX_CONCEPTS = 12;
+export const DEFAULT_CONCEPT_COUNT = 5;
+export const MAX_ARTICLE_LENGTH = 100_000;
+
+export type ConceptsValidationResult =
+  | { ok: true; value: ConceptsRequest }
+  | { ok: false; errors: FieldErrors };
+
+export function validateConceptsRequest(body: unknown): ConceptsValidationResult {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { ok: false, errors: { body: "Request body must be a JSON object" } };
+  }
+
+  const { article, count = DEFAULT_CONCEPT_COUNT, apiKey } = body as Record<string, unknown>;
+  const errors: FieldErrors = {};
+
+  if (typeof article !== "string" || !article.trim()) {
+    errors.article = "Paste an article to split into concepts";
+  } else if (article.length > MAX_ARTICLE_LENGTH) {
+    errors.article = `Article is ${article.length.toLocaleString()} characters; the limit is ${MAX_ARTICLE_LENGTH.toLocaleString()}`;
+  }
+
+  if (
+    !Number.isInteger(count) ||
+    (count as number) < MIN_CONCEPTS ||
+    (count as number) > MAX_CONCEPTS
+  ) {
+    errors.count = `Count must be a whole number from ${MIN_CONCEPTS} to ${MAX_CONCEPTS}`;
+  }
+
+  if (apiKey !== undefined && typeof apiKey !== "string") {
+    errors.apiKey = "API key must be a string";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+  return {
+    ok: true,
+    value: {
+      article: article as string,
+      count: count as number,
+      apiKey: apiKey as string | undefined,
+    },
+  };
+}
@@ -0,0 +1,22 @@
+import { ConceptsRequest, ConceptsResponse } from "@/lib/concepts";
+import { readError } from "@/lib/generateClient";
+
+// POST to /api/concepts and return the proposed concepts and the model that
+// proposed them
+export async function requestConcepts(
+  body: ConceptsRequest,
+  signal?: AbortSignal
+): Promise<ConceptsResponse> {
+  const response = await fetch("/api/concepts", {
+    method: "POST",
+    signal,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw await readError(response, "Failed to split the article into concepts");
+  }
+
+  return response.json();
+}
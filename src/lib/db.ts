@@ -0,0 +1,83 @@
+import { base64ToBytes } from "@/lib/binary";
+import { UploadedImage } from "@/lib/types";
+
+// Shared IndexedDB database for everything the app keeps locally
+const DB_NAME = "excalidragram";
+const DB_VERSION = 3;
+export const SESSION_SUMMARY_STORE = "sessions";
+export const SESSION_DATA_STORE = "sessionData";
+export const PRESET_STORE = "presets";
+export const TEMPLATE_STORE = "templates";
+
+const STORES = [SESSION_SUMMARY_STORE, SESSION_DATA_STORE, PRESET_STORE, TEMPLATE_STORE];
+
+// An uploaded reference image without its object URLs
+export interface StoredReference {
+  id: string;
+  name: string;
+  base64: string;
+  mimeType: string;
+  // The upload itself, so restored references can be re-encoded from it.
+  // Missing in older records and in imported presets.
+  original?: File;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of STORES) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: "id" });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function toStoredReference(image: UploadedImage): StoredReference {
+  return {
+    id: image.id,
+    name: image.file.name,
+    base64: image.base64,
+    mimeType: image.mimeType,
+    original: image.isEncodedCopy ? undefined : image.file,
+  };
+}
+
+export function toUploadedImage(ref: StoredReference): UploadedImage {
+  return {
+    id: ref.id,
+    file: ref.original ?? new File([base64ToBytes(ref.base64)], ref.name, { type: ref.mimeType }),
+    preview: `data:${ref.mimeType};base64,${ref.base64}`,
+    base64: ref.base64,
+    mimeType: ref.mimeType,
+    isEncodedCopy: !ref.original,
+  };
+}
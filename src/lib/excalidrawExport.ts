@@ -0,0 +1,148 @@
+import { downloadBlob } from "@/lib/download";
+import { GeneratedImage } from "@/lib/types";
+
+// Minimal subset of the .excalidraw scene format (version 2) needed to embed
+// a generated image plus a text note describing how it was made
+
+const EXCALIDRAW_SOURCE = "https://github.com/theramjad/excalidragram";
+const NOTE_GAP = 40;
+const NOTE_FONT_SIZE = 20;
+const NOTE_LINE_HEIGHT = 1.25;
+// Virgil, Excalidraw's hand-drawn font
+const NOTE_FONT_FAMILY = 1;
+
+function randomInt(): number {
+  return Math.floor(Math.random() * 2 ** 31);
+}
+
+function baseElement(type: string, x: number, y: number, width: number, height: number) {
+  return {
+    id: crypto.randomUUID(),
+    type,
+    x,
+    y,
+    width,
+    height,
+    angle: 0,
+    strokeColor: "#1e1e1e",
+    backgroundColor: "transparent",
+    fillStyle: "solid",
+    strokeWidth: 1,
+    strokeStyle: "solid",
+    roughness: 1,
+    opacity: 100,
+    groupIds: [] as string[],
+    frameId: null,
+    roundness: null,
+    seed: randomInt(),
+    version: 1,
+    versionNonce: randomInt(),
+    isDeleted: false,
+    boundElements: null,
+    updated: Date.now(),
+    link: null,
+    locked: false,
+  };
+}
+
+function loadImageSize(url: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error("Failed to read image dimensions"));
+    img.src = url;
+  });
+}
+
+function mimeTypeFromDataUrl(dataUrl: string): string {
+  return dataUrl.match(/^data:([^;,]+)/)?.[1] || "image/png";
+}
+
+// Describe the prompt and every refinement step from the root image down to
+// the exported one
+export function describeImageChain(chain: GeneratedImage[]): string {
+  const root = chain[0];
+  const lines: string[] = [];
+  if (root?.provenance?.prompt) {
+    lines.push("Prompt:", root.provenance.prompt);
+  }
+
+  const refinements = chain
+    .map((img) => img.provenance?.refinement)
+    .filter((text): text is string => Boolean(text));
+  if (refinements.length > 0) {
+    lines.push("", "Refinements:");
+    refinements.forEach((text, i) => lines.push(`${i + 1}. ${text}`));
+  }
+
+  return lines.join("\n");
+}
+
+// Build a .excalidraw scene for the last image in `chain`, where `chain` is
+// the path from a top-level image down through its refinements
+export async function buildExcalidrawScene(chain: GeneratedImage[]) {
+  const image = chain[chain.length - 1];
+  const { width, height } = await loadImageSize(image.url);
+  const fileId = image.id;
+  const note = describeImageChain(chain);
+  const now = Date.now();
+
+  const imageElement = {
+    ...baseElement("image", 0, 0, width, height),
+    strokeColor: "transparent",
+    status: "saved",
+    fileId,
+    scale: [1, 1],
+    crop: null,
+    customData: {
+      generatedImageId: image.id,
+      prompt: chain[0]?.provenance?.prompt ?? null,
+      refinements: chain.map((img) => img.provenance?.refinement).filter(Boolean),
+    },
+  };
+
+  const elements: object[] = [imageElement];
+  if (note) {
+    const lineCount = note.split("\n").length;
+    elements.push({
+      ...baseElement("text", 0, height + NOTE_GAP, width, lineCount * NOTE_FONT_SIZE * NOTE_LINE_HEIGHT),
+      fontSize: NOTE_FONT_SIZE,
+      fontFamily: NOTE_FONT_FAMILY,
+      text: note,
+      originalText: note,
+      textAlign: "left",
+      verticalAlign: "top",
+      containerId: null,
+      autoResize: false,
+      lineHeight: NOTE_LINE_HEIGHT,
+    });
+  }
+
+  return {
+    type: "excalidraw",
+    version: 2,
+    source: EXCALIDRAW_SOURCE,
+    elements,
+    appState: {
+      viewBackgroundColor: "#ffffff",
+      gridSize: null,
+    },
+    files: {
+      [fileId]: {
+        id: fileId,
+        mimeType: mimeTypeFromDataUrl(image.url),
+        dataURL: image.url,
+        created: now,
+        lastRetrieved: now,
+      },
+    },
+  };
+}
+
+export async function downloadExcalidrawScene(chain: GeneratedImage[], name: string) {
+  const scene = await buildExcalidrawScene(chain);
+  const blob = new Blob([JSON.stringify(scene, null, 2)], {
+    type: "application/vnd.excalidraw+json",
+  });
+  downloadBlob(blob, `${name}.excalidraw`);
+}
@@ -0,0 +1,99 @@
+import { FieldErrors, validateGenerateRequest } from "@/lib/generateSchema";
+
+export interface GenerateResult {
+  index: number;
+  image?: string;
+  // Text parts the model returned alongside (or instead of) the image
+  text?: string;
+  model?: string;
+  error?: string;
+  // Provider calls made for this image, including retries
+  attempts?: number;
+}
+
+export const NDJSON_CONTENT_TYPE = "application/x-ndjson";
+
+// A request rejected by schema validation, with a message per offending field
+export class GenerateRequestError extends Error {
+  constructor(public fieldErrors: FieldErrors) {
+    super(Object.values(fieldErrors)[0] ?? "Invalid request");
+    this.name = "GenerateRequestError";
+  }
+}
+
+// Turn a non-OK API response into an Error, keeping any field errors
+export async function readError(response: Response, fallback: string): Promise<Error> {
+  const text = await response.text();
+  try {
+    const data = JSON.parse(text);
+    if (data.fieldErrors) return new GenerateRequestError(data.fieldErrors);
+    return new Error(data.error || fallback);
+  } catch {
+    if (text.includes("Entity Too Large") || response.status === 413) {
+      return new Error("Request too large. Try using fewer or smaller reference images.");
+    }
+    return new Error(text || `Error ${response.status}`);
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+// POST to /api/generate and invoke onResult for each image (or error) as soon
+// as the server streams it back, rather than waiting for the whole batch.
+// Aborting `signal` cancels the request; results already delivered stand.
+export async function streamGenerate(
+  body: Record<string, unknown>,
+  onResult: (result: GenerateResult) => void,
+  fallbackError = "Failed to generate images",
+  signal?: AbortSignal
+): Promise<void> {
+  // Catch invalid requests before uploading megabytes of reference images
+  const validation = validateGenerateRequest(body);
+  if (!validation.ok) {
+    throw new GenerateRequestError(validation.errors);
+  }
+
+  const response = await fetch("/api/generate", {
+    method: "POST",
+    signal,
+    headers: {
+      "Content-Type": "application/json",
+      Accept: NDJSON_CONTENT_TYPE,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw await readError(response, fallbackError);
+  }
+
+  if (!response.body) {
+    throw new Error(fallbackError);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flushLine = (line: string) => {
+    if (!line.trim()) return;
+    onResult(JSON.parse(line) as GenerateResult);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline = buffer.indexOf("\n");
+    while (newline !== -1) {
+      flushLine(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf("\n");
+    }
+  }
+
+  flushLine(buffer + decoder.decode());
+}
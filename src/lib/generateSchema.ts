@@ -0,0 +1,185 @@
+import {
+  ASPECT_RATIOS,
+  AspectRatio,
+  IMAGE_SIZES,
+  ImageSize,
+  isAspectRatio,
+  isImageSize,
+} from "@/lib/imageOptions";
+import type { ReferenceImage } from "@/lib/providers/types";
+
+// Request limits for /api/generate, shared by the route and the client so
+// oversized requests can be caught before they are sent
+export const MIN_IMAGE_COUNT = 1;
+export const MAX_IMAGE_COUNT = 10;
+export const MAX_PROMPT_LENGTH = 20_000;
+// Uploaded style references, plus the parent image when refining or up to
+// three parents when merging
+export const MAX_STYLE_REFERENCES = 3;
+export const MAX_MERGE_PARENTS = 3;
+export const MAX_REFERENCE_IMAGES = MAX_STYLE_REFERENCES + MAX_MERGE_PARENTS;
+export const MAX_REFERENCE_IMAGE_BYTES = 7 * 1024 * 1024;
+export const MAX_TOTAL_REFERENCE_BYTES = 20 * 1024 * 1024;
+export const ALLOWED_IMAGE_MIME_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+] as const;
+
+export interface GenerateRequest {
+  prompt: string;
+  referenceImages: ReferenceImage[];
+  count?: number;
+  // Specific variation indices to generate (e.g. to retry one failed slot);
+  // overrides count
+  indices?: number[];
+  aspectRatio?: AspectRatio;
+  imageSize?: ImageSize;
+  // PNG the size of the last reference image (the one being refined); only
+  // its white area may change
+  mask?: ReferenceImage;
+  provider?: string;
+  model?: string;
+  apiKey?: string;
+}
+
+// Error messages keyed by field path, e.g. "count" or "referenceImages.1"
+export type FieldErrors = Record<string, string>;
+
+export type ValidationResult =
+  | { ok: true; value: GenerateRequest }
+  | { ok: false; errors: FieldErrors; tooLarge: boolean };
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+// Decoded size of a base64 string without decoding it
+export function base64ByteLength(base64: string): number {
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= MIN_IMAGE_COUNT &&
+    (value as number) <= MAX_IMAGE_COUNT
+  );
+}
+
+function isOptionalString(value: unknown): value is string | undefined {
+  return value === undefined || typeof value === "string";
+}
+
+export function validateGenerateRequest(body: unknown): ValidationResult {
+  if (!isObject(body)) {
+    return { ok: false, errors: { body: "Request body must be a JSON object" }, tooLarge: false };
+  }
+
+  const errors: FieldErrors = {};
+  let tooLarge = false;
+  const { prompt, referenceImages, count, indices, aspectRatio, imageSize, mask, provider, model, apiKey } =
+    body;
+  let totalBytes = 0;
+
+  if (typeof prompt !== "string" || !prompt.trim()) {
+    errors.prompt = "Prompt is required";
+  } else if (prompt.length > MAX_PROMPT_LENGTH) {
+    errors.prompt = `Prompt is ${prompt.length.toLocaleString()} characters; the limit is ${MAX_PROMPT_LENGTH.toLocaleString()}`;
+  }
+
+  if (!Array.isArray(referenceImages) || referenceImages.length === 0) {
+    errors.referenceImages = "At least one reference image is required";
+  } else if (referenceImages.length > MAX_REFERENCE_IMAGES) {
+    errors.referenceImages = `At most ${MAX_REFERENCE_IMAGES} reference images are allowed`;
+  } else {
+    referenceImages.forEach((image: unknown, i) => {
+      const field = `referenceImages.${i}`;
+      const label = `Reference image ${i + 1}`;
+      if (!isObject(image) || typeof image.data !== "string" || !image.data) {
+        errors[field] = `${label} has no image data`;
+        return;
+      }
+      if (!(ALLOWED_IMAGE_MIME_TYPES as readonly unknown[]).includes(image.mimeType)) {
+        errors[field] = `${label} is ${String(image.mimeType || "an unknown type")}; use PNG, JPEG, WebP or HEIC`;
+        return;
+      }
+      if (!BASE64_PATTERN.test(image.data)) {
+        errors[field] = `${label} is not valid base64`;
+        return;
+      }
+      const bytes = base64ByteLength(image.data);
+      totalBytes += bytes;
+      if (bytes > MAX_REFERENCE_IMAGE_BYTES) {
+        errors[field] = `${label} is ${formatBytes(bytes)}; the limit is ${formatBytes(MAX_REFERENCE_IMAGE_BYTES)}`;
+        tooLarge = true;
+      }
+    });
+  }
+
+  if (mask !== undefined) {
+    if (!isObject(mask) || typeof mask.data !== "string" || !mask.data) {
+      errors.mask = "Mask has no image data";
+    } else if (mask.mimeType !== "image/png") {
+      errors.mask = "Mask must be a PNG";
+    } else if (!BASE64_PATTERN.test(mask.data)) {
+      errors.mask = "Mask is not valid base64";
+    } else {
+      const bytes = base64ByteLength(mask.data);
+      totalBytes += bytes;
+      if (bytes > MAX_REFERENCE_IMAGE_BYTES) {
+        errors.mask = `Mask is ${formatBytes(bytes)}; the limit is ${formatBytes(MAX_REFERENCE_IMAGE_BYTES)}`;
+        tooLarge = true;
+      }
+    }
+  }
+
+  // The mask travels with the references, so it counts towards their total
+  if (totalBytes > MAX_TOTAL_REFERENCE_BYTES) {
+    errors.referenceImages = `Reference images total ${formatBytes(totalBytes)}; the limit is ${formatBytes(MAX_TOTAL_REFERENCE_BYTES)}`;
+    tooLarge = true;
+  }
+
+  if (count !== undefined && !isCount(count)) {
+    errors.count = `Count must be a whole number from ${MIN_IMAGE_COUNT} to ${MAX_IMAGE_COUNT}`;
+  }
+
+  if (indices !== undefined) {
+    if (
+      !Array.isArray(indices) ||
+      !isCount(indices.length) ||
+      new Set(indices).size !== indices.length ||
+      !indices.every((i) => Number.isInteger(i) && i >= 0 && i < MAX_IMAGE_COUNT)
+    ) {
+      errors.indices = `Indices must be ${MIN_IMAGE_COUNT}-${MAX_IMAGE_COUNT} distinct whole numbers below ${MAX_IMAGE_COUNT}`;
+    }
+  }
+
+  if (aspectRatio !== undefined && !isAspectRatio(aspectRatio)) {
+    errors.aspectRatio = `Unsupported aspect ratio. Use one of: ${ASPECT_RATIOS.join(", ")}`;
+  }
+
+  if (imageSize !== undefined && !isImageSize(imageSize)) {
+    errors.imageSize = `Unsupported image size. Use one of: ${IMAGE_SIZES.join(", ")}`;
+  }
+
+  if (!isOptionalString(provider)) errors.provider = "Provider must be a string";
+  if (!isOptionalString(model)) errors.model = "Model must be a string";
+  if (!isOptionalString(apiKey)) errors.apiKey = "API key must be a string";
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors, tooLarge };
+  }
+  return { ok: true, value: body as unknown as GenerateRequest };
+}
@@ -0,0 +1,92 @@
+import { ALLOWED_IMAGE_MIME_TYPES } from "@/lib/generateSchema";
+import { UploadedImage } from "@/lib/types";
+
+// How reference images are resized and re-encoded in the browser before they
+// are sent, to keep requests small
+export const REFERENCE_MAX_EDGES = [768, 1024, 1536, 2048] as const;
+export const REFERENCE_FORMATS = ["image/webp", "image/jpeg"] as const;
+
+export type ReferenceFormat = (typeof REFERENCE_FORMATS)[number];
+
+export interface ReferenceEncoding {
+  maxEdge: number;
+  format: ReferenceFormat;
+  // 0-1, passed to canvas.toBlob
+  quality: number;
+}
+
+export const DEFAULT_REFERENCE_ENCODING: ReferenceEncoding = {
+  maxEdge: 1536,
+  format: "image/webp",
+  quality: 0.85,
+};
+
+export const REFERENCE_FORMAT_LABELS: Record<ReferenceFormat, string> = {
+  "image/webp": "WebP",
+  "image/jpeg": "JPEG",
+};
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))),
+      type,
+      quality
+    );
+  });
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Scale an image down so its longest edge fits maxEdge (never up) and
+// re-encode it. `file` keeps the original so the image can be re-encoded
+// again if the settings change. Formats the API accepts but the browser
+// can't decode (e.g. HEIC outside Safari) are sent as they are.
+export async function encodeReferenceImage(
+  file: File,
+  encoding: ReferenceEncoding,
+  id: string = crypto.randomUUID()
+): Promise<UploadedImage> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch (error) {
+    if (!(ALLOWED_IMAGE_MIME_TYPES as readonly string[]).includes(file.type)) throw error;
+    const dataUrl = await blobToDataUrl(file);
+    return { id, file, preview: dataUrl, base64: dataUrl.split(",")[1], mimeType: file.type };
+  }
+  const scale = Math.min(1, encoding.maxEdge / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+  // JPEG has no alpha; flatten transparent areas onto white like the generated images
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  let blob = await canvasToBlob(canvas, encoding.format, encoding.quality);
+  // Browsers without a WebP encoder silently return PNG instead
+  if (blob.type !== encoding.format) {
+    blob = await canvasToBlob(canvas, "image/jpeg", encoding.quality);
+  }
+
+  const dataUrl = await blobToDataUrl(blob);
+  return {
+    id,
+    file,
+    preview: dataUrl,
+    base64: dataUrl.split(",")[1],
+    mimeType: blob.type,
+  };
+}
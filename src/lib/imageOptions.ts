@@ -0,0 +1,33 @@
+// Output settings supported by Gemini's image generation models
+export const ASPECT_RATIOS = [
+  "1:1",
+  "2:3",
+  "3:2",
+  "3:4",
+  "4:3",
+  "4:5",
+  "5:4",
+  "9:16",
+  "16:9",
+  "21:9",
+] as const;
+
+export const IMAGE_SIZES = ["1K", "2K", "4K"] as const;
+
+export type AspectRatio = (typeof ASPECT_RATIOS)[number];
+export type ImageSize = (typeof IMAGE_SIZES)[number];
+
+export const DEFAULT_ASPECT_RATIO: AspectRatio = "16:9";
+export const DEFAULT_IMAGE_SIZE: ImageSize = "2K";
+
+export const IMAGE_SIZE_HINTS: Partial<Record<ImageSize, string>> = {
+  "4K": "4K tends to produce random artifacts more often. 2K is recommended for best results.",
+};
+
+export function isAspectRatio(value: unknown): value is AspectRatio {
+  return typeof value === "string" && (ASPECT_RATIOS as readonly string[]).includes(value);
+}
+
+export function isImageSize(value: unknown): value is ImageSize {
+  return typeof value === "string" && (IMAGE_SIZES as readonly string[]).includes(value);
+}
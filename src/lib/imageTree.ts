@@ -0,0 +1,188 @@
+import { GeneratedImage } from "@/lib/types";
+
+// Lookups on the refinement tree. Edits return a new tree and leave the
+// original untouched.
+
+export function findImageById(images: GeneratedImage[], id: string): GeneratedImage | null {
+  for (const img of images) {
+    if (img.id === id) return img;
+    const found = findImageById(img.refinements, id);
+    if (found) return found;
+  }
+  return null;
+}
+
+export function addRefinementsToImage(
+  images: GeneratedImage[],
+  targetId: string,
+  newRefinements: GeneratedImage[]
+): GeneratedImage[] {
+  return images.map((img) => {
+    if (img.id === targetId) {
+      return { ...img, refinements: [...img.refinements, ...newRefinements] };
+    }
+    return {
+      ...img,
+      refinements: addRefinementsToImage(img.refinements, targetId, newRefinements),
+    };
+  });
+}
+
+export function updateImageById(
+  images: GeneratedImage[],
+  targetId: string,
+  update: (img: GeneratedImage) => GeneratedImage
+): GeneratedImage[] {
+  return images.map((img) =>
+    img.id === targetId
+      ? update(img)
+      : { ...img, refinements: updateImageById(img.refinements, targetId, update) }
+  );
+}
+
+// Path from a top-level image down to the target (inclusive)
+export function findImagePath(images: GeneratedImage[], id: string): GeneratedImage[] | null {
+  for (const img of images) {
+    if (img.id === id) return [img];
+    const path = findImagePath(img.refinements, id);
+    if (path) return [img, ...path];
+  }
+  return null;
+}
+
+// Find siblings of a selected image (images in the same row/group)
+export function findSiblings(images: GeneratedImage[], targetId: string): GeneratedImage[] | null {
+  // Check top-level images
+  if (images.some(img => img.id === targetId)) {
+    return images;
+  }
+  // Check refinements recursively
+  for (const img of images) {
+    if (img.refinements.some(r => r.id === targetId)) {
+      return img.refinements;
+    }
+    const found = findSiblings(img.refinements, targetId);
+    if (found) return found;
+  }
+  return null;
+}
+
+// The sibling offset places away from the target, wrapping around its row
+export function findAdjacentSibling(
+  images: GeneratedImage[],
+  targetId: string,
+  offset: number
+): GeneratedImage | null {
+  const siblings = findSiblings(images, targetId);
+  if (!siblings) return null;
+  const currentIndex = siblings.findIndex(img => img.id === targetId);
+  if (currentIndex === -1) return null;
+  return siblings[(currentIndex + offset + siblings.length) % siblings.length];
+}
+
+// "Image 2 › 1 › 3": the top-level image number, then the refinement number at each depth
+export function imageLabel(images: GeneratedImage[], id: string): string {
+  const path = findImagePath(images, id);
+  if (!path) return "";
+  let row = images;
+  return path
+    .map((img, depth) => {
+      const position = row.indexOf(img) + 1;
+      row = img.refinements;
+      return depth === 0 ? `Image ${position}` : `${position}`;
+    })
+    .join(" › ");
+}
+
+// The parent each image is first reached under, in the same depth-first
+// order as its label. A merged image is drawn in full only there.
+export function findFirstParents(
+  images: GeneratedImage[],
+  parentId: string | null = null,
+  parents = new Map<string, string>()
+): Map<string, string> {
+  for (const img of images) {
+    if (parentId && !parents.has(img.id)) parents.set(img.id, parentId);
+    findFirstParents(img.refinements, img.id, parents);
+  }
+  return parents;
+}
+
+// Labels of a merged image's parents as the tree stands now; a parent may
+// have been pruned since the merge
+export function mergeParentLabels(images: GeneratedImage[], img: GeneratedImage, excludeId?: string): string[] {
+  return (img.provenance?.mergedFrom ?? [])
+    .filter((id) => id !== excludeId)
+    .map((id) => imageLabel(images, id) || "(removed)");
+}
+
+// Where an image sat in the tree: under a parent (or at the top level) at an index
+export interface Placement {
+  parentId: string | null;
+  index: number;
+}
+
+// Removes every copy of the image (merged images sit under several parents)
+export function removeImageById(images: GeneratedImage[], targetId: string): GeneratedImage[] {
+  return images
+    .filter((img) => img.id !== targetId)
+    .map((img) => ({ ...img, refinements: removeImageById(img.refinements, targetId) }));
+}
+
+export function insertImageAt(
+  images: GeneratedImage[],
+  { parentId, index }: Placement,
+  image: GeneratedImage
+): GeneratedImage[] {
+  if (parentId === null) {
+    return [...images.slice(0, index), image, ...images.slice(index)];
+  }
+  return updateImageById(images, parentId, (parent) => ({
+    ...parent,
+    refinements: insertImageAt(parent.refinements, { parentId: null, index }, image),
+  }));
+}
+
+// One placement per parent, even where the parent itself appears twice
+export function findPlacements(
+  images: GeneratedImage[],
+  id: string,
+  parentId: string | null = null,
+  found = new Map<string | null, Placement>()
+): Placement[] {
+  images.forEach((img, index) => {
+    if (img.id === id) {
+      if (!found.has(parentId)) found.set(parentId, { parentId, index });
+      return;
+    }
+    findPlacements(img.refinements, id, img.id, found);
+  });
+  return [...found.values()];
+}
+
+export function collectBranchIds(img: GeneratedImage, ids = new Set<string>()): Set<string> {
+  ids.add(img.id);
+  img.refinements.forEach((child) => collectBranchIds(child, ids));
+  return ids;
+}
+
+// A pruned branch as it goes back into the tree. Merged images that stayed
+// under another parent may have changed since (favorited, refined), so their
+// current copy is used and each id stays one image.
+export function reconcileBranch(branch: GeneratedImage, tree: GeneratedImage[]): GeneratedImage {
+  return (
+    findImageById(tree, branch.id) ?? {
+      ...branch,
+      refinements: branch.refinements.map((child) => reconcileBranch(child, tree)),
+    }
+  );
+}
+
+// Favorites in tree order, each once
+export function collectFavorites(images: GeneratedImage[], seen = new Set<string>()): GeneratedImage[] {
+  return images.flatMap((img) => {
+    if (seen.has(img.id)) return [];
+    seen.add(img.id);
+    return [...(img.favorite ? [img] : []), ...collectFavorites(img.refinements, seen)];
+  });
+}
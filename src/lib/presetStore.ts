@@ -0,0 +1,145 @@
+import {
+  PRESET_STORE,
+  StoredReference,
+  openDatabase,
+  requestToPromise,
+  toStoredReference,
+  transactionDone,
+} from "@/lib/db";
+import { downloadBlob } from "@/lib/download";
+import { ALLOWED_IMAGE_MIME_TYPES, MAX_STYLE_REFERENCES } from "@/lib/generateSchema";
+import { UploadedImage } from "@/lib/types";
+
+// A named style: the reference images and the system prompt that go with them
+export interface StylePreset {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  references: StoredReference[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+const PRESET_FILE_TYPE = "excalidragram-style-presets";
+const PRESET_FILE_VERSION = 1;
+
+interface PresetFile {
+  type: typeof PRESET_FILE_TYPE;
+  version: number;
+  presets: Omit<StylePreset, "id" | "createdAt" | "updatedAt">[];
+}
+
+export async function listPresets(): Promise<StylePreset[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(PRESET_STORE, "readonly");
+  const presets = await requestToPromise(
+    tx.objectStore(PRESET_STORE).getAll() as IDBRequest<StylePreset[]>
+  );
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+async function putPresets(presets: StylePreset[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(PRESET_STORE, "readwrite");
+  const store = tx.objectStore(PRESET_STORE);
+  presets.forEach((preset) => store.put(preset));
+  await transactionDone(tx);
+}
+
+// Create a preset, or overwrite `existing` in place
+export async function savePreset(
+  name: string,
+  systemPrompt: string,
+  references: UploadedImage[],
+  existing?: StylePreset
+): Promise<StylePreset> {
+  const now = Date.now();
+  const preset: StylePreset = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name: name.trim(),
+    systemPrompt,
+    references: references.map(toStoredReference),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await putPresets([preset]);
+  return preset;
+}
+
+export async function deletePreset(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(PRESET_STORE, "readwrite");
+  tx.objectStore(PRESET_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+export function exportPresets(presets: StylePreset[], filename: string) {
+  const file: PresetFile = {
+    type: PRESET_FILE_TYPE,
+    version: PRESET_FILE_VERSION,
+    // Only the encoded copies are exported; the originals stay local
+    presets: presets.map(({ name, systemPrompt, references }) => ({
+      name,
+      systemPrompt,
+      references: references.map(({ id, name, base64, mimeType }) => ({ id, name, base64, mimeType })),
+    })),
+  };
+  downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: "application/json" }), filename);
+}
+
+function isStoredReference(value: unknown): value is StoredReference {
+  const ref = value as StoredReference;
+  return (
+    typeof ref === "object" &&
+    ref !== null &&
+    typeof ref.name === "string" &&
+    typeof ref.base64 === "string" &&
+    (ALLOWED_IMAGE_MIME_TYPES as readonly string[]).includes(ref.mimeType)
+  );
+}
+
+// Read a preset file exported by exportPresets and store its presets. Imported
+// presets always get new ids so they never overwrite local ones.
+export async function importPresets(file: File): Promise<StylePreset[]> {
+  let data: PresetFile;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not a valid preset file`);
+  }
+  if (data?.type !== PRESET_FILE_TYPE || !Array.isArray(data.presets)) {
+    throw new Error(`${file.name} is not a valid preset file`);
+  }
+  if (data.version > PRESET_FILE_VERSION) {
+    throw new Error(`${file.name} was made by a newer version of the app`);
+  }
+
+  const now = Date.now();
+  const presets = data.presets.map((preset, i): StylePreset => {
+    if (
+      typeof preset?.name !== "string" ||
+      typeof preset.systemPrompt !== "string" ||
+      !Array.isArray(preset.references) ||
+      preset.references.length > MAX_STYLE_REFERENCES ||
+      !preset.references.every(isStoredReference)
+    ) {
+      throw new Error(`Preset ${i + 1} in ${file.name} is malformed`);
+    }
+    return {
+      id: crypto.randomUUID(),
+      name: preset.name,
+      systemPrompt: preset.systemPrompt,
+      references: preset.references.map(({ name, base64, mimeType }) => ({
+        id: crypto.randomUUID(),
+        name,
+        base64,
+        mimeType,
+      })),
+      createdAt: now,
+      updatedAt: now,
+    };
+  });
+
+  await putPresets(presets);
+  return presets;
+}
@@ -0,0 +1,101 @@
+// System prompt templates with {{placeholders}}. A placeholder may carry a
+// default after a pipe: {{people|prefer using humanoid robots}}.
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w -]+?)\s*(?:\|([^}]*))?\}\}/g;
+// The same, with the space in front of it; an empty placeholder takes that
+// space with it so optional sentences leave no gap
+const SPACED_PLACEHOLDER_PATTERN = / ?\{\{\s*([\w -]+?)\s*(?:\|([^}]*))?\}\}/g;
+
+export interface TemplateVariable {
+  name: string;
+  defaultValue: string;
+}
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  savedAt: number;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  // Incremented every time the body changes
+  version: number;
+  body: string;
+  // Earlier versions, oldest first
+  history: PromptTemplateVersion[];
+  builtIn?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Which template version a prompt was rendered from, recorded on each image
+export interface TemplateReference {
+  id: string;
+  name: string;
+  version: number;
+}
+
+export const DEFAULT_TEMPLATE: PromptTemplate = {
+  id: "default",
+  name: "Explainer (built-in)",
+  version: 1,
+  // With no variables filled in this renders the original built-in prompt;
+  // the notes are optional extra sentences
+  body: `Generate an explanation image in the style of the reference images. This is for generating visual explanations that explain concepts clearly. {{audience note}} Use a white background. Capture the visual aesthetic, color palette, artistic techniques, and overall mood of the references. {{palette note}} When depicting people or avatars, {{people|prefer using humanoid robots}}. {{language note}} Explain the concept in a similar style to the reference images, using diagrams, annotations, and illustrations as needed.`,
+  history: [],
+  builtIn: true,
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+// Placeholders in order of first appearance; the first default given wins
+export function extractVariables(body: string): TemplateVariable[] {
+  const variables = new Map<string, string>();
+  for (const match of body.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1];
+    if (!variables.has(name) || (!variables.get(name) && match[2])) {
+      variables.set(name, match[2]?.trim() ?? "");
+    }
+  }
+  return Array.from(variables, ([name, defaultValue]) => ({ name, defaultValue }));
+}
+
+// The value each placeholder in body resolves to, falling back to its default
+export function resolveVariables(
+  body: string,
+  values: Record<string, string>
+): Record<string, string> {
+  return Object.fromEntries(
+    extractVariables(body).map(({ name, defaultValue }) => [
+      name,
+      values[name]?.trim() || defaultValue,
+    ])
+  );
+}
+
+export function renderTemplate(body: string, values: Record<string, string>): string {
+  const resolved = resolveVariables(body, values);
+  return body.replace(SPACED_PLACEHOLDER_PATTERN, (match: string, name: string) => {
+    const value = resolved[name] ?? "";
+    return value && match.startsWith(" ") ? ` ${value}` : value;
+  });
+}
+
+// "A", "B", "C": how merge parents are referred to in instructions
+export function mergeLetter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+// Refinement instructions for a merge. The parents are sent as the last
+// reference images, in letter order.
+export function buildMergeInstructions(instruction: string, parentCount: number): string {
+  const letters = Array.from({ length: parentCount }, (_, i) => mergeLetter(i));
+  return `The last ${parentCount} reference images are generated images ${letters.join(", ")}, in that order. Combine them into one new image, taking elements from each as described:\n${instruction}`;
+}
+
+// The exact prompt sent to /api/generate
+export function buildPrompt(systemPrompt: string, userContent: string, refinement?: string): string {
+  const prompt = `${systemPrompt}\n\nContent to visualize:\n${userContent}`;
+  return refinement ? `${prompt}\n\nRefinement instructions:\n${refinement}` : prompt;
+}
@@ -0,0 +1,94 @@
+import { GoogleGenAI } from "@google/genai";
+import type { GenerateResult } from "@/lib/generateClient";
+import type { ImageGenerationRequest, ImageProvider, ImageProviderInfo } from "./types";
+
+export const GEMINI_PROVIDER_INFO: ImageProviderInfo = {
+  id: "gemini",
+  label: "Google Gemini",
+  models: ["gemini-3-pro-image-preview", "gemini-2.5-flash-image"],
+  defaultModel: "gemini-3-pro-image-preview",
+  requiresApiKey: true,
+};
+
+export function createGeminiProvider(apiKey: string): ImageProvider {
+  const genai = new GoogleGenAI({ apiKey });
+
+  async function generateImage(
+    request: ImageGenerationRequest,
+    index: number
+  ): Promise<GenerateResult> {
+    const parts: Array<{ text: string } | { inlineData: { data: string; mimeType: string } }> = [
+      { text: request.prompt + ` (Variation ${index + 1})` },
+    ];
+
+    for (const img of request.referenceImages) {
+      parts.push({
+        inlineData: {
+          data: img.data,
+          mimeType: img.mimeType,
+        },
+      });
+    }
+
+    const response = await genai.models.generateContent({
+      model: request.model,
+      contents: [
+        {
+          role: "user",
+          parts,
+        },
+      ],
+      config: {
+        abortSignal: request.signal,
+        responseModalities: ["TEXT", "IMAGE"],
+        imageConfig: {
+          aspectRatio: request.aspectRatio,
+          imageSize: request.imageSize,
+        },
+      },
+    });
+
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+      return { index, error: `Prompt blocked by safety filters (${blockReason})` };
+    }
+
+    const candidate = response.candidates?.[0];
+    if (!candidate?.content?.parts) {
+      const finishReason = candidate?.finishReason;
+      return {
+        index,
+        error: finishReason && finishReason !== "STOP"
+          ? `No image generated (${finishReason})`
+          : "No response from model",
+      };
+    }
+
+    const text = candidate.content.parts
+      .filter((part) => part.text && !part.thought)
+      .map((part) => part.text)
+      .join("\n")
+      .trim() || undefined;
+
+    for (const part of candidate.content.parts) {
+      if (part.inlineData?.data) {
+        return {
+          index,
+          image: `data:${part.inlineData.mimeType || "image/png"};base64,${part.inlineData.data}`,
+          text,
+        };
+      }
+    }
+
+    const finishReason = candidate.finishReason;
+    return {
+      index,
+      error: finishReason && finishReason !== "STOP"
+        ? `No image in response (${finishReason})`
+        : "No image in response",
+      text,
+    };
+  }
+
+  return { ...GEMINI_PROVIDER_INFO, generateImage };
+}
@@ -0,0 +1,23 @@
+import { GEMINI_PROVIDER_INFO, createGeminiProvider } from "./gemini";
+import { MOCK_PROVIDER_INFO, createMockProvider } from "./mock";
+import type { ImageProvider, ImageProviderInfo } from "./types";
+
+export type { ImageGenerationRequest, ImageProvider, ImageProviderInfo, ReferenceImage } from "./types";
+
+export const PROVIDERS: ImageProviderInfo[] = [GEMINI_PROVIDER_INFO, MOCK_PROVIDER_INFO];
+
+export function getProviderInfo(id: string): ImageProviderInfo | undefined {
+  return PROVIDERS.find((provider) => provider.id === id);
+}
+
+export function createProvider(id: string, apiKey: string | undefined): ImageProvider {
+  switch (id) {
+    case GEMINI_PROVIDER_INFO.id:
+      if (!apiKey) throw new Error("Gemini provider requires an API key");
+      return createGeminiProvider(apiKey);
+    case MOCK_PROVIDER_INFO.id:
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown image provider: ${id}`);
+  }
+}
@@ -0,0 +1,118 @@
+import { deflateSync } from "zlib";
+import { crc32 } from "@/lib/binary";
+import { sleep } from "@/lib/retry";
+import type { GenerateResult } from "@/lib/generateClient";
+import type { AspectRatio, ImageSize } from "@/lib/imageOptions";
+import type { ImageGenerationRequest, ImageProvider, ImageProviderInfo } from "./types";
+
+export const MOCK_PROVIDER_INFO: ImageProviderInfo = {
+  id: "mock",
+  label: "Local mock (placeholder images)",
+  models: ["mock-placeholder"],
+  defaultModel: "mock-placeholder",
+  requiresApiKey: false,
+};
+
+const MOCK_WIDTHS: Record<ImageSize, number> = {
+  "1K": 320,
+  "2K": 480,
+  "4K": 640,
+};
+
+// Simulated per-image latency so streaming in the UI can be exercised offline
+const MOCK_DELAY_MS = 400;
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+function dimensionsFor(aspectRatio: AspectRatio, imageSize: ImageSize): [number, number] {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  const width = MOCK_WIDTHS[imageSize];
+  return [width, Math.round((width * h) / w)];
+}
+
+// Encode a striped placeholder whose colour is derived from the prompt and
+// variation index, so the same request always yields the same image
+export function renderPlaceholderPng(
+  seed: string,
+  aspectRatio: AspectRatio,
+  imageSize: ImageSize
+): Buffer {
+  const [width, height] = dimensionsFor(aspectRatio, imageSize);
+  const hash = hashString(seed);
+  const background = hslToRgb(hash % 360, 0.55, 0.85);
+  const stripe = hslToRgb(hash % 360, 0.55, 0.65);
+  const stripeWidth = 12 + (hash % 24);
+
+  const rowLength = width * 3 + 1;
+  const pixels = Buffer.alloc(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    pixels[y * rowLength] = 0;
+    for (let x = 0; x < width; x++) {
+      const isBorder = x < 4 || y < 4 || x >= width - 4 || y >= height - 4;
+      const isStripe = Math.floor((x + y) / stripeWidth) % 2 === 0;
+      const [r, g, b] = isBorder ? [40, 40, 40] : isStripe ? stripe : background;
+      const offset = y * rowLength + 1 + x * 3;
+      pixels[offset] = r;
+      pixels[offset + 1] = g;
+      pixels[offset + 2] = b;
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // colour type: RGB
+  header[10] = 0;
+  header[11] = 0;
+  header[12] = 0;
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(pixels)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+export function createMockProvider(): ImageProvider {
+  async function generateImage(
+    request: ImageGenerationRequest,
+    index: number
+  ): Promise<GenerateResult> {
+    await sleep(MOCK_DELAY_MS * (index + 1), request.signal);
+    const png = renderPlaceholderPng(
+      `${request.prompt}#${index}`,
+      request.aspectRatio,
+      request.imageSize
+    );
+    return { index, image: `data:image/png;base64,${png.toString("base64")}` };
+  }
+
+  return { ...MOCK_PROVIDER_INFO, generateImage };
+}
@@ -0,0 +1,33 @@
+import type { GenerateResult } from "@/lib/generateClient";
+import type { AspectRatio, ImageSize } from "@/lib/imageOptions";
+
+export interface ReferenceImage {
+  data: string;
+  mimeType: string;
+}
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  referenceImages: ReferenceImage[];
+  model: string;
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
+  // Aborted when the client disconnects
+  signal?: AbortSignal;
+}
+
+export interface ImageProviderInfo {
+  id: string;
+  label: string;
+  models: string[];
+  defaultModel: string;
+  requiresApiKey: boolean;
+}
+
+// A backend that can turn a prompt plus reference images into images. The
+// route fans out one generateImage call per requested variation. Failures the
+// model reports (no image, safety block) come back as an `error` result;
+// request failures are thrown so the route can retry transient ones.
+export interface ImageProvider extends ImageProviderInfo {
+  generateImage(request: ImageGenerationRequest, index: number): Promise<GenerateResult>;
+}
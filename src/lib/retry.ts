@@ -0,0 +1,118 @@
+export interface RetryOptions {
+  // Retries after the first attempt
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const TRANSIENT_MESSAGE_PATTERN =
+  /timed? ?out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|EAI_AGAIN|socket hang up|fetch failed|network/i;
+
+function errorStatus(error: unknown): number | undefined {
+  if (typeof error === "object" && error !== null && "status" in error) {
+    const status = (error as { status: unknown }).status;
+    return typeof status === "number" ? status : undefined;
+  }
+  return undefined;
+}
+
+// Rate limits, server errors and network timeouts are worth retrying; bad
+// requests, auth failures and safety blocks are not
+export function isTransientError(error: unknown): boolean {
+  const status = errorStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  if (error instanceof Error) {
+    return error.name === "AbortError" || error.name === "TimeoutError" || TRANSIENT_MESSAGE_PATTERN.test(error.message);
+  }
+  return false;
+}
+
+// Gemini reports how long to wait in the error body, e.g. "retryDelay": "23s"
+// (google.rpc.RetryInfo); some errors carry a Retry-After style hint instead
+export function retryAfterMs(error: unknown): number | undefined {
+  if (!(error instanceof Error)) return undefined;
+  const retryDelay = error.message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  if (retryDelay) return Math.ceil(Number(retryDelay[1]) * 1000);
+  const retryAfter = error.message.match(/retry[- ]after[":\s]+(\d+(?:\.\d+)?)/i);
+  if (retryAfter) return Math.ceil(Number(retryAfter[1]) * 1000);
+  return undefined;
+}
+
+// Exponential backoff with full jitter, never shorter than the server's hint
+export function backoffDelayMs(retry: number, options: RetryOptions, hintMs?: number): number {
+  const exponential = Math.min(options.baseDelayMs * 2 ** retry, options.maxDelayMs);
+  const jittered = Math.random() * exponential;
+  return hintMs !== undefined ? Math.max(hintMs, jittered) : jittered;
+}
+
+// Wait ms, rejecting as soon as signal aborts (at once if it already has).
+// The abort listener is removed once the timer fires, so a long-lived signal
+// doesn't collect one per wait.
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal?.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Run fn, retrying transient failures. Non-transient errors and the last
+// transient one are rethrown; once `signal` aborts nothing is retried.
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions,
+  onRetry?: (retry: number, delayMs: number, error: unknown) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let retry = 0; ; retry++) {
+    signal?.throwIfAborted();
+    try {
+      return await fn();
+    } catch (error) {
+      if (signal?.aborted || retry >= options.maxRetries || !isTransientError(error)) {
+        throw error;
+      }
+      const delayMs = backoffDelayMs(retry, options, retryAfterMs(error));
+      onRetry?.(retry + 1, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+// Limit how many of the wrapped calls run at once; the rest wait in FIFO order
+export function createLimiter(concurrency: number) {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  // Hand the slot straight to the next waiter so it can't be taken in between
+  const release = () => {
+    const next = queue.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return async function limit<T>(fn: () => Promise<T>): Promise<T> {
+    if (active >= concurrency) {
+      await new Promise<void>((resolve) => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  };
+}
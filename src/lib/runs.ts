@@ -0,0 +1,34 @@
+import { GeneratedImage } from "@/lib/types";
+
+// Top-level images from one click of Generate
+export interface Run {
+  // Empty for images generated before runs were recorded
+  id: string;
+  images: GeneratedImage[];
+}
+
+// Runs in the order they were started; extraRunIds adds runs that have no
+// images yet (still generating, or every variation failed)
+export function groupRuns(images: GeneratedImage[], extraRunIds: string[]): Run[] {
+  const runs: Run[] = [];
+  for (const img of images) {
+    const id = img.provenance?.runId ?? "";
+    const run = runs.find((r) => r.id === id);
+    if (run) {
+      run.images.push(img);
+    } else {
+      runs.push({ id, images: [img] });
+    }
+  }
+  for (const id of extraRunIds) {
+    if (!runs.some((r) => r.id === id)) runs.push({ id, images: [] });
+  }
+  return runs;
+}
+
+export function runSummary(run: Run): string {
+  const createdAt = run.images[0]?.provenance?.createdAt;
+  if (!createdAt) return "Generating...";
+  const time = new Date(createdAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  return `${run.images.length} ${run.images.length === 1 ? "image" : "images"} · ${time}`;
+}
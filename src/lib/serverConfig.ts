@@ -0,0 +1,107 @@
+import { PROVIDERS, ImageProviderInfo, getProviderInfo } from "@/lib/providers";
+import type { RetryOptions } from "@/lib/retry";
+
+// Deployment-level settings read from the server environment
+export type ApiKeyMode = "client" | "server";
+
+export interface Capabilities {
+  apiKeyMode: ApiKeyMode;
+  defaultProvider: string;
+  providers: ImageProviderInfo[];
+}
+
+// Set API_KEY_MODE=server to use GEMINI_API_KEY for every request instead of
+// a key supplied by the browser
+export function getApiKeyMode(): ApiKeyMode {
+  return process.env.API_KEY_MODE === "server" ? "server" : "client";
+}
+
+export function getServerApiKey(): string | undefined {
+  return process.env.GEMINI_API_KEY || undefined;
+}
+
+export type ApiKeyResolution =
+  | { ok: true; apiKey: string }
+  | { ok: false; error: string; status: number };
+
+// Pick the Gemini key for a request: the server's key in server mode (where a
+// client key is rejected), otherwise the key the browser sent
+export function resolveApiKey(clientApiKey: string | undefined): ApiKeyResolution {
+  if (getApiKeyMode() === "server") {
+    if (clientApiKey) {
+      return {
+        ok: false,
+        error: "This deployment uses a server-side API key. Do not send apiKey in the request.",
+        status: 400,
+      };
+    }
+
+    const serverApiKey = getServerApiKey();
+    if (!serverApiKey) {
+      console.error("API_KEY_MODE is 'server' but GEMINI_API_KEY is not set");
+      return { ok: false, error: "Server API key is not configured", status: 500 };
+    }
+    return { ok: true, apiKey: serverApiKey };
+  }
+
+  if (!clientApiKey) {
+    return {
+      ok: false,
+      error: "API key is required. Please enter your Gemini API key.",
+      status: 401,
+    };
+  }
+  return { ok: true, apiKey: clientApiKey };
+}
+
+// IMAGE_PROVIDER picks the provider used when a request doesn't name one
+// (e.g. IMAGE_PROVIDER=mock for offline development)
+export function getDefaultProviderId(): string {
+  const configured = process.env.IMAGE_PROVIDER;
+  return configured && getProviderInfo(configured) ? configured : PROVIDERS[0].id;
+}
+
+// IMAGE_MODEL overrides the default provider's model when a request doesn't name one
+export function getDefaultModel(providerId: string): string {
+  const provider = getProviderInfo(providerId);
+  if (providerId === getDefaultProviderId() && process.env.IMAGE_MODEL) {
+    return process.env.IMAGE_MODEL;
+  }
+  return provider?.defaultModel ?? "";
+}
+
+// CONCEPTS_MODEL is the Gemini text model that splits articles into concepts
+export function getConceptsModel(): string {
+  return process.env.CONCEPTS_MODEL || "gemini-2.5-flash";
+}
+
+// Unset or invalid values (including ones below min) fall back to the default
+function readInt(name: string, fallback: number, min: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isInteger(value) && value >= min ? value : fallback;
+}
+
+// GENERATION_CONCURRENCY caps how many provider calls one request runs at
+// once, so quota-limited keys aren't hit with every variation simultaneously
+export function getGenerationConcurrency(): number {
+  return readInt("GENERATION_CONCURRENCY", 4, 1);
+}
+
+// GENERATION_MAX_RETRIES, GENERATION_RETRY_BASE_MS and GENERATION_RETRY_MAX_MS
+// tune the backoff for transient errors (429, 5xx, timeouts)
+export function getRetryOptions(): RetryOptions {
+  return {
+    // 0 turns retries off; the delays must be positive so backoff can't be disabled by accident
+    maxRetries: readInt("GENERATION_MAX_RETRIES", 3, 0),
+    baseDelayMs: readInt("GENERATION_RETRY_BASE_MS", 1000, 1),
+    maxDelayMs: readInt("GENERATION_RETRY_MAX_MS", 30000, 1),
+  };
+}
+
+export function getCapabilities(): Capabilities {
+  return {
+    apiKeyMode: getApiKeyMode(),
+    defaultProvider: getDefaultProviderId(),
+    providers: PROVIDERS,
+  };
+}
@@ -0,0 +1,135 @@
+import {
+  SESSION_DATA_STORE,
+  SESSION_SUMMARY_STORE,
+  StoredReference,
+  openDatabase,
+  requestToPromise,
+  toStoredReference,
+  toUploadedImage,
+  transactionDone,
+} from "@/lib/db";
+import { GeneratedImage, UploadedImage } from "@/lib/types";
+
+export interface SessionSnapshot {
+  systemPrompt: string;
+  userContent: string;
+  // Values for the system prompt's {{placeholders}}
+  promptVariables: Record<string, string>;
+  references: UploadedImage[];
+  generatedImages: GeneratedImage[];
+}
+
+// Lightweight metadata kept in its own store so the sidebar can list sessions
+// without loading every base64 image
+export interface SessionSummary {
+  id: string;
+  name: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  imageCount: number;
+}
+
+interface StoredSession {
+  id: string;
+  systemPrompt: string;
+  userContent: string;
+  // Missing in sessions saved before prompt templates existed
+  promptVariables?: Record<string, string>;
+  references: StoredReference[];
+  generatedImages: GeneratedImage[];
+}
+
+// Merged images appear under each of their parents but count once
+function countImages(images: GeneratedImage[], seen = new Set<string>()): number {
+  return images.reduce((total, img) => {
+    if (seen.has(img.id)) return total;
+    seen.add(img.id);
+    return total + 1 + countImages(img.refinements, seen);
+  }, 0);
+}
+
+function deriveTitle(userContent: string): string {
+  const firstLine = userContent.trim().split("\n")[0] || "";
+  if (!firstLine) return "Untitled session";
+  return firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine;
+}
+
+export async function listSessions(): Promise<SessionSummary[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_SUMMARY_STORE, "readonly");
+  const summaries = await requestToPromise(
+    tx.objectStore(SESSION_SUMMARY_STORE).getAll() as IDBRequest<SessionSummary[]>
+  );
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadSession(id: string): Promise<SessionSnapshot | null> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_DATA_STORE, "readonly");
+  const stored = await requestToPromise(
+    tx.objectStore(SESSION_DATA_STORE).get(id) as IDBRequest<StoredSession | undefined>
+  );
+  if (!stored) return null;
+
+  return {
+    systemPrompt: stored.systemPrompt,
+    userContent: stored.userContent,
+    promptVariables: stored.promptVariables ?? {},
+    references: stored.references.map(toUploadedImage),
+    generatedImages: stored.generatedImages,
+  };
+}
+
+export async function saveSession(id: string, snapshot: SessionSnapshot): Promise<SessionSummary> {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSION_SUMMARY_STORE, SESSION_DATA_STORE], "readwrite");
+  const summaries = tx.objectStore(SESSION_SUMMARY_STORE);
+  const existing = await requestToPromise(
+    summaries.get(id) as IDBRequest<SessionSummary | undefined>
+  );
+
+  const now = Date.now();
+  const summary: SessionSummary = {
+    id,
+    name: existing?.name ?? "",
+    title: deriveTitle(snapshot.userContent),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    imageCount: countImages(snapshot.generatedImages),
+  };
+  const stored: StoredSession = {
+    id,
+    systemPrompt: snapshot.systemPrompt,
+    userContent: snapshot.userContent,
+    promptVariables: snapshot.promptVariables,
+    references: snapshot.references.map(toStoredReference),
+    generatedImages: snapshot.generatedImages,
+  };
+
+  summaries.put(summary);
+  tx.objectStore(SESSION_DATA_STORE).put(stored);
+  await transactionDone(tx);
+  return summary;
+}
+
+export async function renameSession(id: string, name: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_SUMMARY_STORE, "readwrite");
+  const store = tx.objectStore(SESSION_SUMMARY_STORE);
+  const existing = await requestToPromise(
+    store.get(id) as IDBRequest<SessionSummary | undefined>
+  );
+  if (existing) {
+    store.put({ ...existing, name: name.trim() });
+  }
+  await transactionDone(tx);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSION_SUMMARY_STORE, SESSION_DATA_STORE], "readwrite");
+  tx.objectStore(SESSION_SUMMARY_STORE).delete(id);
+  tx.objectStore(SESSION_DATA_STORE).delete(id);
+  await transactionDone(tx);
+}
@@ -0,0 +1,62 @@
+import { TEMPLATE_STORE, openDatabase, requestToPromise, transactionDone } from "@/lib/db";
+import { PromptTemplate } from "@/lib/promptTemplates";
+
+export async function listTemplates(): Promise<PromptTemplate[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(TEMPLATE_STORE, "readonly");
+  const templates = await requestToPromise(
+    tx.objectStore(TEMPLATE_STORE).getAll() as IDBRequest<PromptTemplate[]>
+  );
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+async function putTemplate(template: PromptTemplate): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(TEMPLATE_STORE, "readwrite");
+  tx.objectStore(TEMPLATE_STORE).put(template);
+  await transactionDone(tx);
+}
+
+export async function createTemplate(name: string, body: string): Promise<PromptTemplate> {
+  const now = Date.now();
+  const template: PromptTemplate = {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    version: 1,
+    body,
+    history: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  await putTemplate(template);
+  return template;
+}
+
+// Save a new version of a template. The previous body moves to its history;
+// saving an unchanged body is a no-op.
+export async function saveTemplateVersion(
+  template: PromptTemplate,
+  body: string
+): Promise<PromptTemplate> {
+  if (body === template.body) return template;
+  const now = Date.now();
+  const updated: PromptTemplate = {
+    ...template,
+    version: template.version + 1,
+    body,
+    history: [
+      ...template.history,
+      { version: template.version, body: template.body, savedAt: template.updatedAt },
+    ],
+    updatedAt: now,
+  };
+  await putTemplate(updated);
+  return updated;
+}
+
+export async function deleteTemplate(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(TEMPLATE_STORE, "readwrite");
+  tx.objectStore(TEMPLATE_STORE).delete(id);
+  await transactionDone(tx);
+}
@@ -0,0 +1,97 @@
+import { GeneratedImage } from "@/lib/types";
+
+// Left-to-right layout of the refinement tree: depth runs along x and every
+// leaf gets its own row, with parents centred on their children. A merged
+// image appears under each of its parents in the tree but is placed once,
+// one column past its deepest parent, with an edge from every parent.
+export interface TreeLayoutNode {
+  image: GeneratedImage;
+  // Same format as the compare view, e.g. "Image 2 › 1"
+  label: string;
+  depth: number;
+  x: number;
+  y: number;
+}
+
+export interface TreeLayoutEdge {
+  from: TreeLayoutNode;
+  to: TreeLayoutNode;
+  // The refinement instruction that produced the child, on its first edge only
+  label?: string;
+}
+
+export interface TreeLayout {
+  nodes: TreeLayoutNode[];
+  edges: TreeLayoutEdge[];
+  width: number;
+  height: number;
+}
+
+export interface TreeLayoutOptions {
+  nodeWidth: number;
+  nodeHeight: number;
+  columnGap: number;
+  rowGap: number;
+  // Branches it rejects are left out; labels keep their full-tree positions
+  isVisible?: (img: GeneratedImage) => boolean;
+}
+
+// Whether the image or any of its refinements is a favorite
+export function hasFavorite(img: GeneratedImage): boolean {
+  return Boolean(img.favorite) || img.refinements.some(hasFavorite);
+}
+
+export function layoutTree(images: GeneratedImage[], options: TreeLayoutOptions): TreeLayout {
+  const { nodeWidth, nodeHeight, columnGap, rowGap, isVisible = () => true } = options;
+  const nodes: TreeLayoutNode[] = [];
+  const edges: TreeLayoutEdge[] = [];
+  let nextRow = 0;
+  let maxDepth = 0;
+
+  // Longest path from a top-level image, so every edge points rightwards
+  const depths = new Map<string, number>();
+  const measure = (img: GeneratedImage, depth: number) => {
+    depths.set(img.id, Math.max(depths.get(img.id) ?? 0, depth));
+    img.refinements.forEach((child) => measure(child, depth + 1));
+  };
+  images.forEach((img) => measure(img, 0));
+
+  const placed = new Map<string, TreeLayoutNode>();
+  const place = (img: GeneratedImage, label: string): TreeLayoutNode => {
+    const depth = depths.get(img.id) ?? 0;
+    maxDepth = Math.max(maxDepth, depth);
+    const node: TreeLayoutNode = { image: img, label, depth, x: depth * (nodeWidth + columnGap), y: 0 };
+    placed.set(img.id, node);
+
+    // Only children placed here (not merged images placed elsewhere) take rows
+    const newChildren: TreeLayoutNode[] = [];
+    img.refinements.forEach((child, i) => {
+      if (!isVisible(child)) return;
+      const existing = placed.get(child.id);
+      if (existing) {
+        edges.push({ from: node, to: existing });
+        return;
+      }
+      const childNode = place(child, `${label} › ${i + 1}`);
+      newChildren.push(childNode);
+      edges.push({ from: node, to: childNode, label: child.provenance?.refinement });
+    });
+    node.y =
+      newChildren.length > 0
+        ? (newChildren[0].y + newChildren[newChildren.length - 1].y) / 2
+        : nextRow++ * (nodeHeight + rowGap);
+    nodes.push(node);
+    return node;
+  };
+
+  images.forEach((img, i) => {
+    if (isVisible(img)) place(img, `Image ${i + 1}`);
+  });
+
+  return {
+    nodes,
+    edges,
+    width: (maxDepth + 1) * nodeWidth + maxDepth * columnGap,
+    height: Math.max(nextRow, 1) * nodeHeight + Math.max(nextRow - 1, 0) * rowGap,
+  };
+}
@@ -0,0 +1,86 @@
+import type { AspectRatio, ImageSize } from "@/lib/imageOptions";
+import type { TemplateReference } from "@/lib/promptTemplates";
+import type { ReferenceImage } from "@/lib/providers/types";
+
+export interface UploadedImage {
+  id: string;
+  file: File;
+  preview: string;
+  base64: string;
+  mimeType: string;
+  // `file` is the stored encoded copy rather than the upload (references saved
+  // before originals were kept, or imported presets), so it is never re-encoded
+  isEncodedCopy?: boolean;
+}
+
+// How a generated image was produced
+export interface ImageProvenance {
+  // The full prompt sent to /api/generate, before the variation suffix
+  prompt: string;
+  // The saved template version the system prompt was rendered from, if it
+  // was used unedited, and the value each of its variables resolved to
+  template?: TemplateReference;
+  promptVariables?: Record<string, string>;
+  refinement?: string;
+  variationIndex: number;
+  model?: string;
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
+  // Names and SHA-256 hashes of every reference image sent with the request,
+  // in order (for refinements the last one is the parent image, for merges
+  // the last ones are the parents)
+  referenceNames: string[];
+  referenceHashes: string[];
+  // SHA-256 of the mask when a refinement was limited to a painted region
+  regionMaskHash?: string;
+  // The id of every parent of a merged image, in the order they were sent
+  // (A, B, ...). The image is a refinement of each one.
+  mergedFrom?: string[];
+  // The Generate click a top-level image came from; earlier runs stay in the
+  // session when a new one starts
+  runId?: string;
+  // Any text the model returned alongside the image
+  responseText?: string;
+  // Provider calls it took, including retries of transient errors
+  attempts?: number;
+  createdAt: number;
+}
+
+export interface GeneratedImage {
+  id: string;
+  url: string;
+  base64: string;
+  refinements: GeneratedImage[];
+  provenance?: ImageProvenance;
+  favorite?: boolean;
+  // 1-5 stars; unset when unrated
+  rating?: number;
+}
+
+// Provenance shared by every variation of one request
+export type RequestProvenance = Omit<
+  ImageProvenance,
+  "variationIndex" | "model" | "responseText" | "attempts" | "createdAt"
+>;
+
+// Everything needed to (re)send a generation request for one or more variations
+export interface GenerationRequest {
+  prompt: string;
+  referenceImages: ReferenceImage[];
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
+  mask?: ReferenceImage;
+}
+
+// A variation that came back without an image, kept in place so it can be retried
+export interface FailedSlot {
+  id: string;
+  // Image the slot would have refined; null for the top-level grid
+  parentId: string | null;
+  index: number;
+  error: string;
+  attempts?: number;
+  request: GenerationRequest;
+  provenance: RequestProvenance;
+  isRetrying: boolean;
+}
@@ -0,0 +1,122 @@
+import { base64ToBytes } from "@/lib/binary";
+import { downloadBlob } from "@/lib/download";
+import { GeneratedImage } from "@/lib/types";
+import { ZipEntry, createZip } from "@/lib/zip";
+
+interface ManifestEntry {
+  id: string;
+  group: string | null;
+  parentId: string | null;
+  depth: number;
+  file: string;
+  prompt: string | null;
+  template: { id: string; name: string; version: number } | null;
+  promptVariables: Record<string, string> | null;
+  refinement: string | null;
+  variationIndex: number | null;
+  model: string | null;
+  aspectRatio: string | null;
+  imageSize: string | null;
+  referenceHashes: string[];
+  regionMaskHash: string | null;
+  // Every parent of a merged image; parentId is the first of them
+  mergedFrom: string[] | null;
+  runId: string | null;
+  createdAt: string | null;
+  favorite: boolean;
+  rating: number | null;
+}
+
+export interface ZipBranch {
+  images: GeneratedImage[];
+  parentId: string | null;
+  depth: number;
+  // File name prefix; each image appends its position, e.g. "image-2-1"
+  prefix: string;
+  // Recorded in the manifest for every image in the branch, e.g. a batch item title
+  group?: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+
+function extensionFor(dataUrl: string): string {
+  const mimeType = dataUrl.match(/^data:([^;,]+)/)?.[1] || "image/png";
+  return EXTENSIONS[mimeType] || "png";
+}
+
+// A merged image sits under each of its parents but is saved once, under
+// the first place it is reached
+function collectEntries(
+  branch: ZipBranch,
+  files: ZipEntry[],
+  manifest: ManifestEntry[],
+  seen: Set<string>
+) {
+  branch.images.forEach((img, i) => {
+    if (seen.has(img.id)) return;
+    seen.add(img.id);
+    const name = `${branch.prefix}-${i + 1}`;
+    const file = `${name}.${extensionFor(img.url)}`;
+    files.push({ name: file, data: base64ToBytes(img.base64) });
+    manifest.push({
+      id: img.id,
+      group: branch.group ?? null,
+      parentId: branch.parentId,
+      depth: branch.depth,
+      file,
+      prompt: img.provenance?.prompt ?? null,
+      template: img.provenance?.template ?? null,
+      promptVariables: img.provenance?.promptVariables ?? null,
+      refinement: img.provenance?.refinement ?? null,
+      variationIndex: img.provenance?.variationIndex ?? null,
+      model: img.provenance?.model ?? null,
+      aspectRatio: img.provenance?.aspectRatio ?? null,
+      imageSize: img.provenance?.imageSize ?? null,
+      referenceHashes: img.provenance?.referenceHashes ?? [],
+      regionMaskHash: img.provenance?.regionMaskHash ?? null,
+      mergedFrom: img.provenance?.mergedFrom ?? null,
+      runId: img.provenance?.runId ?? null,
+      createdAt: img.provenance?.createdAt
+        ? new Date(img.provenance.createdAt).toISOString()
+        : null,
+      favorite: img.favorite ?? false,
+      rating: img.rating ?? null,
+    });
+    collectEntries(
+      {
+        images: img.refinements,
+        parentId: img.id,
+        depth: branch.depth + 1,
+        prefix: name,
+        group: branch.group,
+      },
+      files,
+      manifest,
+      seen
+    );
+  });
+}
+
+// Download one or more branches (images and all their refinements) as a ZIP
+// with a manifest.json describing where each file came from
+export function downloadImagesZip(branches: ZipBranch | ZipBranch[], filename: string) {
+  const files: ZipEntry[] = [];
+  const manifest: ManifestEntry[] = [];
+  const seen = new Set<string>();
+  for (const branch of Array.isArray(branches) ? branches : [branches]) {
+    collectEntries(branch, files, manifest, seen);
+  }
+
+  const manifestJson = JSON.stringify(
+    { exportedAt: new Date().toISOString(), images: manifest },
+    null,
+    2
+  );
+  files.push({ name: "manifest.json", data: new TextEncoder().encode(manifestJson) });
+
+  downloadBlob(createZip(files), `${filename}.zip`);
+}